@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { StoredAccount } from "../../lib/server/accountStore";
+import { newId } from "../../lib/ids";
+import { getAccountStore } from "../../lib/server/accountStore";
+import {
+  currentAccount,
+  hashPassword,
+  requireAccount,
+  startSignIn,
+  toAccount,
+} from "../../lib/server/auth";
+import {
+  apiError,
+  errorResponse,
+  handleRouteError,
+} from "../../lib/server/errors";
+import { parseNewAccount } from "../../lib/server/validation";
+export const runtime = "nodejs";
+
+// Every account, for trainers managing the team.
+export async function GET(req: NextRequest) {
+  try {
+    await requireAccount(req, "trainer");
+    const accounts = await getAccountStore().listAccounts();
+    return NextResponse.json({
+      accounts: accounts
+        .map(toAccount)
+        .sort((a, b) => a.displayName.localeCompare(b.displayName)),
+    });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+// Trainers add accounts. The very first account can be created by anyone,
+// is always a trainer, and is signed straight in.
+export async function POST(req: NextRequest) {
+  try {
+    const store = getAccountStore();
+    const firstRun = (await store.listAccounts()).length === 0;
+    if (!firstRun) await requireAccount(req, "trainer");
+
+    const body = await req.json().catch(() => null);
+    const input = parseNewAccount(
+      firstRun ? { ...body, role: "trainer" } : body
+    );
+    if (!input.ok) {
+      return errorResponse("bad_input", "Invalid account", input.errors);
+    }
+
+    const { username, displayName, password, role } = input.value;
+    const stored: StoredAccount = {
+      id: newId(),
+      username,
+      displayName,
+      role,
+      createdAt: new Date().toISOString(),
+      passwordHash: await hashPassword(password),
+    };
+    // Both checks run in the store's queue, so two sign-ups at once can't
+    // both become the first trainer or share a username.
+    const added = await store.addAccount(stored, { firstOnly: firstRun });
+    if (added === "not_first") throw apiError("unauthorized", "Sign in first");
+    if (added === "taken") {
+      return errorResponse("bad_input", "That username is taken");
+    }
+
+    const account = toAccount(stored);
+    const res = NextResponse.json({ account });
+    return firstRun && !(await currentAccount(req))
+      ? startSignIn(res, account)
+      : res;
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
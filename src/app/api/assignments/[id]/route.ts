@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAccountStore } from "../../../lib/server/accountStore";
+import { requireAccount } from "../../../lib/server/auth";
+import { errorResponse, handleRouteError } from "../../../lib/server/errors";
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+// One assignment, for its VA or any trainer.
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const account = await requireAccount(req);
+    const { id } = await params;
+    const assignment = await getAccountStore().getAssignment(id);
+    if (
+      !assignment ||
+      (account.role !== "trainer" && assignment.vaId !== account.id)
+    ) {
+      return errorResponse("not_found", "Assignment not found");
+    }
+    return NextResponse.json({ assignment });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    await requireAccount(req, "trainer");
+    const { id } = await params;
+    const store = getAccountStore();
+    if (!(await store.getAssignment(id))) {
+      return errorResponse("not_found", "Assignment not found");
+    }
+    await store.removeAssignment(id);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
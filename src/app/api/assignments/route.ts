@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Assignment } from "../../types/account";
+import { newId } from "../../lib/ids";
+import { getAccountStore } from "../../lib/server/accountStore";
+import { requireAccount } from "../../lib/server/auth";
+import { errorResponse, handleRouteError } from "../../lib/server/errors";
+import { parseNewAssignment } from "../../lib/server/validation";
+export const runtime = "nodejs";
+
+// Trainers see every assignment; a VA sees their own. Soonest due first.
+export async function GET(req: NextRequest) {
+  try {
+    const account = await requireAccount(req);
+    const assignments = (await getAccountStore().listAssignments())
+      .filter((a) => account.role === "trainer" || a.vaId === account.id)
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+    return NextResponse.json({ assignments });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+// Assigns `{ vaId, persona, dueDate, note?, coaching? }`.
+export async function POST(req: NextRequest) {
+  try {
+    const trainer = await requireAccount(req, "trainer");
+    const body = await req.json().catch(() => null);
+    const input = parseNewAssignment(body);
+    if (!input.ok) {
+      return errorResponse("bad_input", "Invalid assignment", input.errors);
+    }
+
+    const store = getAccountStore();
+    const va = await store.getAccount(input.value.vaId);
+    if (!va || va.role !== "va") {
+      return errorResponse("bad_input", "Assignments go to a VA account");
+    }
+
+    const assignment: Assignment = {
+      ...input.value,
+      id: newId(),
+      assignedBy: trainer.id,
+      createdAt: new Date().toISOString(),
+    };
+    await store.saveAssignment(assignment);
+
+    return NextResponse.json({ assignment });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
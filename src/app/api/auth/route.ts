@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAccountStore } from "../../lib/server/accountStore";
+import {
+  currentAccount,
+  endSignIn,
+  startSignIn,
+  toAccount,
+  verifyPassword,
+} from "../../lib/server/auth";
+import { errorResponse, handleRouteError } from "../../lib/server/errors";
+import { parseSignIn } from "../../lib/server/validation";
+export const runtime = "nodejs";
+
+// Who is signed in. `firstRun` is true until the first account exists, so
+// the page can offer to create it.
+export async function GET(req: NextRequest) {
+  try {
+    const account = await currentAccount(req);
+    const firstRun =
+      !account && (await getAccountStore().listAccounts()).length === 0;
+    return NextResponse.json({ account, firstRun });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+// Signs in with `{ username, password }`.
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    const signIn = parseSignIn(body);
+    if (!signIn.ok) {
+      return errorResponse("bad_input", "Invalid sign-in", signIn.errors);
+    }
+
+    const { username, password } = signIn.value;
+    const stored = await getAccountStore().findByUsername(username);
+    if (!stored || !(await verifyPassword(password, stored.passwordHash))) {
+      return errorResponse("bad_input", "Wrong username or password");
+    }
+
+    const account = toAccount(stored);
+    return startSignIn(NextResponse.json({ account }), account);
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+export async function DELETE() {
+  return endSignIn(NextResponse.json({ ok: true }));
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveAnnotation } from "../../../../../../lib/annotations";
+import { requireAccount } from "../../../../../../lib/server/auth";
+import { getCallStore } from "../../../../../../lib/server/callStore";
+import {
+  errorResponse,
+  handleRouteError,
+} from "../../../../../../lib/server/errors";
+export const runtime = "nodejs";
+
+// The VA who made the call marks a comment as dealt with. Resolving it
+// again keeps the first time.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; annotationId: string }> }
+) {
+  try {
+    const account = await requireAccount(req);
+    const { id, annotationId } = await params;
+    const store = getCallStore();
+    const call = await store.get(id);
+    const annotation = call?.annotations?.find((a) => a.id === annotationId);
+    if (!call || call.trainee?.id !== account.id || !annotation) {
+      return errorResponse("not_found", "Annotation not found");
+    }
+    if (annotation.resolvedAt) return NextResponse.json({ call });
+
+    const saved = await store.update(
+      id,
+      (latest) => latest && resolveAnnotation(latest, annotationId)
+    );
+    if (!saved) return errorResponse("not_found", "Call not found");
+    return NextResponse.json({ call: saved });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
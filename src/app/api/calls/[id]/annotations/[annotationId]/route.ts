@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { removeAnnotation } from "../../../../../lib/annotations";
+import { requireAccount } from "../../../../../lib/server/auth";
+import { getCallStore } from "../../../../../lib/server/callStore";
+import {
+  errorResponse,
+  handleRouteError,
+} from "../../../../../lib/server/errors";
+export const runtime = "nodejs";
+
+// Trainers take back their own feedback.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; annotationId: string }> }
+) {
+  try {
+    await requireAccount(req, "trainer");
+    const { id, annotationId } = await params;
+    const store = getCallStore();
+    const call = await store.get(id);
+    if (!call?.annotations?.some((a) => a.id === annotationId)) {
+      return errorResponse("not_found", "Annotation not found");
+    }
+
+    const saved = await store.update(
+      id,
+      (latest) => latest && removeAnnotation(latest, annotationId)
+    );
+    if (!saved) return errorResponse("not_found", "Call not found");
+    return NextResponse.json({ call: saved });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { addAnnotation } from "../../../../lib/annotations";
+import { requireAccount } from "../../../../lib/server/auth";
+import { getCallStore } from "../../../../lib/server/callStore";
+import { errorResponse, handleRouteError } from "../../../../lib/server/errors";
+import { parseAnnotationInput } from "../../../../lib/server/validation";
+export const runtime = "nodejs";
+
+// A trainer comments on a saved call: `{ turnIndex, span?, label?, comment? }`.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAccount(req, "trainer");
+    const { id } = await params;
+    const store = getCallStore();
+    const call = await store.get(id);
+    if (!call) return errorResponse("not_found", "Call not found");
+
+    const body = await req.json().catch(() => null);
+    const input = parseAnnotationInput(body, call.turns);
+    if (!input.ok) {
+      return errorResponse("bad_input", "Invalid annotation", input.errors);
+    }
+
+    const saved = await store.update(
+      id,
+      (latest) => latest && addAnnotation(latest, input.value)
+    );
+    if (!saved) return errorResponse("not_found", "Call not found");
+    return NextResponse.json({ call: saved });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canUseCall, requireAccount } from "../../../../lib/server/auth";
+import { getCallStore } from "../../../../lib/server/callStore";
+import { errorResponse, handleRouteError } from "../../../../lib/server/errors";
+import { getRecordingStore } from "../../../../lib/server/recordingStore";
+import { parseRecordingUpload } from "../../../../lib/server/validation";
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+// The call's mixed recording as a WAV file. Its timeline is `recording` on
+// the call.
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const account = await requireAccount(req);
+    const { id } = await params;
+    const call = await getCallStore().get(id);
+    const audio =
+      call?.recording && canUseCall(account, call)
+        ? await getRecordingStore().get(id)
+        : null;
+    if (!audio) return errorResponse("not_found", "Recording not found");
+    return new NextResponse(new Uint8Array(audio), {
+      headers: { "Content-Type": "audio/wav" },
+    });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+// Uploads the recording from the browser that made the call: FormData with
+// `audio` (WAV) and `timeline`. Uploading again replaces it.
+export async function PUT(req: NextRequest, { params }: Params) {
+  try {
+    const account = await requireAccount(req);
+    const { id } = await params;
+    const calls = getCallStore();
+    const call = await calls.get(id);
+    if (!call || !canUseCall(account, call)) {
+      return errorResponse("not_found", "Call not found");
+    }
+
+    const form = await req.formData().catch(() => new FormData());
+    const upload = parseRecordingUpload(form, call.turns);
+    if (!upload.ok) {
+      return errorResponse("bad_input", "Invalid recording", upload.errors);
+    }
+
+    const { audio, timeline } = upload.value;
+    await getRecordingStore().save(id, Buffer.from(await audio.arrayBuffer()));
+    const saved = await calls.update(
+      id,
+      (latest) => latest && { ...latest, recording: timeline }
+    );
+    if (!saved) return errorResponse("not_found", "Call not found");
+    return NextResponse.json({ call: saved });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canUseCall, requireAccount } from "../../../lib/server/auth";
+import { getCallStore } from "../../../lib/server/callStore";
+import { errorResponse, handleRouteError } from "../../../lib/server/errors";
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+// One saved call, for its VA or any trainer.
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const account = await requireAccount(req);
+    const { id } = await params;
+    const call = await getCallStore().get(id);
+    if (!call || !canUseCall(account, call)) {
+      return errorResponse("not_found", "Call not found");
+    }
+    return NextResponse.json({ call });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
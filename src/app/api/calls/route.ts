@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canUseCall, requireAccount } from "../../lib/server/auth";
+import { getCallStore } from "../../lib/server/callStore";
+import { handleRouteError } from "../../lib/server/errors";
+export const runtime = "nodejs";
+
+// Saved calls, newest first: every call for trainers, a VA's own for VAs.
+export async function GET(req: NextRequest) {
+  try {
+    const account = await requireAccount(req);
+    const calls = (await getCallStore().list())
+      .filter((call) => canUseCall(account, call))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    return NextResponse.json({ calls });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccount } from "../../../lib/server/auth";
+import { getClinicStore } from "../../../lib/server/clinicStore";
+import { errorResponse, handleRouteError } from "../../../lib/server/errors";
+import { parseClinicProfile } from "../../../lib/server/validation";
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    await requireAccount(req);
+    const { id } = await params;
+    const profile = await getClinicStore().get(id);
+    if (!profile) {
+      return errorResponse("not_found", "Clinic profile not found");
+    }
+    return NextResponse.json({ profile });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+// Replaces the profile's `{ name, config }`. Trainers only.
+export async function PUT(req: NextRequest, { params }: Params) {
+  try {
+    await requireAccount(req, "trainer");
+    const { id } = await params;
+    const body = await req.json().catch(() => null);
+    const input = parseClinicProfile(body);
+    if (!input.ok) {
+      return errorResponse("bad_input", "Invalid clinic profile", input.errors);
+    }
+
+    const store = getClinicStore();
+    if (!(await store.get(id))) {
+      return errorResponse("not_found", "Clinic profile not found");
+    }
+    const profile = { ...input.value, id, updatedAt: new Date().toISOString() };
+    await store.save(profile);
+
+    return NextResponse.json({ profile });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    await requireAccount(req, "trainer");
+    const { id } = await params;
+    const store = getClinicStore();
+    if (!(await store.get(id))) {
+      return errorResponse("not_found", "Clinic profile not found");
+    }
+    await store.remove(id);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ClinicProfile } from "../../types/config";
+import { newId } from "../../lib/ids";
+import { requireAccount } from "../../lib/server/auth";
+import { getClinicStore } from "../../lib/server/clinicStore";
+import { errorResponse, handleRouteError } from "../../lib/server/errors";
+import { parseClinicProfile } from "../../lib/server/validation";
+export const runtime = "nodejs";
+
+// Every clinic profile, by name, for anyone signed in.
+export async function GET(req: NextRequest) {
+  try {
+    await requireAccount(req);
+    const profiles = (await getClinicStore().list()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    return NextResponse.json({ profiles });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+// Adds `{ name, config }` as a new profile. Trainers only.
+export async function POST(req: NextRequest) {
+  try {
+    await requireAccount(req, "trainer");
+    const body = await req.json().catch(() => null);
+    const input = parseClinicProfile(body);
+    if (!input.ok) {
+      return errorResponse("bad_input", "Invalid clinic profile", input.errors);
+    }
+
+    const profile: ClinicProfile = {
+      ...input.value,
+      id: newId(),
+      updatedAt: new Date().toISOString(),
+    };
+    await getClinicStore().save(profile);
+
+    return NextResponse.json({ profile });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseClinicConfig } from "../../lib/clinicConfig";
+import { requireAccount } from "../../lib/server/auth";
+import { errorResponse, handleRouteError } from "../../lib/server/errors";
+import { scoreCall } from "../../lib/server/scoreCall";
+import {
+  parseOutcome,
+  parsePersona,
+  parseTurns,
+} from "../../lib/server/validation";
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+  try {
+    await requireAccount(req);
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("bad_input", "Request body must be JSON");
+    }
+
+    const clinic = parseClinicConfig(body?.clinicConfig);
+    const persona = parsePersona(body?.persona);
+    const turns = parseTurns(body?.turns);
+    const outcome = parseOutcome(body?.outcome);
+
+    if (!clinic.ok || !persona.ok || !turns.ok || !outcome.ok) {
+      return errorResponse("bad_input", "Invalid call to score", [
+        ...(clinic.ok ? [] : clinic.errors),
+        ...(persona.ok ? [] : persona.errors),
+        ...(turns.ok ? [] : turns.errors),
+        ...(outcome.ok ? [] : outcome.errors),
+      ]);
+    }
+    if (turns.value.length === 0) {
+      return errorResponse("bad_input", "There are no turns to score");
+    }
+
+    const { scorecard, discrepancies } = await scoreCall(
+      turns.value,
+      clinic.config,
+      persona.value,
+      outcome.value
+    );
+
+    return NextResponse.json({ scorecard, discrepancies });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
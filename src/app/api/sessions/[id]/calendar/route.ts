@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { bookSlot, isSlotOpen } from "../../../../lib/calendar";
+import { parseOfficeHours } from "../../../../lib/officeHours";
+import { requireSession } from "../../../../lib/server/auth";
+import {
+  apiError,
+  errorResponse,
+  handleRouteError,
+} from "../../../../lib/server/errors";
+import { updateSession } from "../../../../lib/server/sessionStore";
+import { parseCalendarSlot } from "../../../../lib/server/validation";
+export const runtime = "nodejs";
+
+// Books `{ date, start }` in the session's appointment book for the patient
+// on the call. Booking again moves the call's booking. The book stays open
+// after the patient agrees to a slot, until the call is ended with /end.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await requireSession(req, id);
+    const body = await req.json().catch(() => null);
+    const slot = parseCalendarSlot(body);
+    if (!slot.ok) {
+      return errorResponse("bad_input", "Invalid slot", slot.errors);
+    }
+
+    const saved = await updateSession(id, (session) => {
+      if (session.endedAt) {
+        throw apiError("call_ended", "This call has already ended");
+      }
+      const schedule = parseOfficeHours(session.clinic.officeHours);
+      if (
+        !session.calendar ||
+        !isSlotOpen(session.calendar, schedule, slot.value)
+      ) {
+        throw apiError("bad_input", "That slot is not open");
+      }
+      return {
+        ...session,
+        calendar: bookSlot(session.calendar, slot.value, session.persona.name),
+      };
+    });
+    if (!saved) return errorResponse("session_not_found", "Session not found");
+
+    return NextResponse.json({ calendar: saved.calendar });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "../../../../lib/server/auth";
+import { coachCall } from "../../../../lib/server/coachCall";
+import { errorResponse, handleRouteError } from "../../../../lib/server/errors";
+import { updateSession } from "../../../../lib/server/sessionStore";
+export const runtime = "nodejs";
+
+// Coaching for the patient's latest line, unless the trainer locked it off.
+// The session only records that coaching was given, for the saved call.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { session } = await requireSession(req, id);
+    if (session.coachingLocked) {
+      return errorResponse("forbidden", "Coaching is off for this call");
+    }
+
+    if (session.turns.at(-1)?.role !== "patient") {
+      return errorResponse(
+        "bad_input",
+        "Coaching needs a patient line to respond to"
+      );
+    }
+
+    const tip = await coachCall(session);
+
+    await updateSession(session.id, (latest) => ({ ...latest, coached: true }));
+
+    return NextResponse.json({ tip });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
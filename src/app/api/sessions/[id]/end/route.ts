@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { CallSession } from "../../../../types/session";
+import { checkBookedSlot, toDateKey } from "../../../../lib/calendar";
+import { checkCallScript } from "../../../../lib/callScript";
+import { checkCallFacts } from "../../../../lib/factCheck";
+import { getAccountStore } from "../../../../lib/server/accountStore";
+import { requireSession } from "../../../../lib/server/auth";
+import { getCallStore } from "../../../../lib/server/callStore";
+import {
+  apiError,
+  errorResponse,
+  handleRouteError,
+} from "../../../../lib/server/errors";
+import { updateSession } from "../../../../lib/server/sessionStore";
+import { scoreCall } from "../../../../lib/server/scoreCall";
+import { parseTimingMs } from "../../../../lib/server/validation";
+import { buildOutcome } from "../../../../lib/scenarios";
+import { computeSpeechMetrics } from "../../../../lib/speechMetrics";
+export const runtime = "nodejs";
+
+// Ends the call, scores the server's own transcript and saves the call to
+// the call store, completing the assignment the call was started for.
+// Calling it again (e.g. after scoring failed) re-scores without changing
+// the outcome. The optional JSON body is `{ replySpeechMs? }`, the length of
+// the patient's last reply.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await requireSession(req, id);
+    const body = (await req.json().catch(() => null)) as Record<
+      string,
+      unknown
+    > | null;
+    const replySpeechMs = parseTimingMs(body?.replySpeechMs, "replySpeechMs");
+    if (!replySpeechMs.ok) {
+      return errorResponse("bad_input", "Invalid timing", replySpeechMs.errors);
+    }
+
+    const session = await updateSession(id, (latest) => {
+      if (latest.turns.length === 0) {
+        throw apiError("bad_input", "Session has no turns to score");
+      }
+      if (latest.endedAt) return latest;
+      const last = latest.turns[latest.turns.length - 1];
+      if (replySpeechMs.value !== undefined && last.role === "patient") {
+        last.timing = { speechMs: replySpeechMs.value };
+      }
+      return {
+        ...latest,
+        endedAt: new Date().toISOString(),
+        outcome: latest.outcome ?? buildOutcome("ended_by_va"),
+      };
+    });
+    if (!session?.endedAt) {
+      return errorResponse("session_not_found", "Session not found");
+    }
+    const endedAt = session.endedAt;
+    const outcome = session.outcome ?? buildOutcome("ended_by_va");
+
+    // The slot the patient agreed to, against the clinic's calendar.
+    const bookedSlot = session.outcome?.bookedSlot;
+    const bookingCheck =
+      bookedSlot && session.calendar
+        ? checkBookedSlot(
+            bookedSlot,
+            session.calendar,
+            session.clinic,
+            session.callDate ?? toDateKey(new Date(session.startedAt))
+          )
+        : null;
+
+    // Saved unscored first, so a failed score never loses the call. Both
+    // writes go through update, so trainer comments and the uploaded
+    // recording are kept, even ones saved while the call is scored.
+    const calls = getCallStore();
+    const speechMetrics = computeSpeechMetrics(session.turns);
+    await calls.update(
+      session.id,
+      (earlier): CallSession => ({
+        ...earlier,
+        id: session.id,
+        persona: session.persona,
+        clinic: session.clinic,
+        inputMode: session.inputMode,
+        coached: Boolean(session.coached),
+        startedAt: session.startedAt,
+        endedAt,
+        turns: session.turns,
+        outcome,
+        scorecard: null,
+        discrepancies: checkCallFacts(session.turns, session.clinic),
+        checklist: checkCallScript(
+          session.turns,
+          session.clinic,
+          session.trainee?.name
+        ),
+        speechMetrics,
+        calendar: session.calendar,
+        bookingCheck: bookingCheck ?? undefined,
+        trainee: session.trainee,
+        assignmentId: session.assignmentId,
+      })
+    );
+
+    // Only once the call is saved, so a done assignment always has a call.
+    if (session.assignmentId) {
+      const accounts = getAccountStore();
+      const assignment = await accounts.getAssignment(session.assignmentId);
+      if (
+        assignment &&
+        assignment.vaId === session.trainee?.id &&
+        !assignment.completedAt
+      ) {
+        assignment.completedAt = new Date().toISOString();
+        assignment.callId = session.id;
+        await accounts.saveAssignment(assignment);
+      }
+    }
+
+    const { scorecard, discrepancies } = await scoreCall(
+      session.turns,
+      session.clinic,
+      session.persona,
+      outcome,
+      bookingCheck ?? undefined
+    );
+    await calls.update(
+      session.id,
+      (latest) => latest && { ...latest, scorecard, discrepancies }
+    );
+
+    return NextResponse.json({
+      session,
+      scorecard,
+      discrepancies,
+      speechMetrics,
+      bookingCheck,
+    });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
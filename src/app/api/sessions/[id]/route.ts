@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "../../../lib/server/auth";
+import { handleRouteError } from "../../../lib/server/errors";
+export const runtime = "nodejs";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { session } = await requireSession(req, id);
+
+    return NextResponse.json({ session });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "../../../../lib/server/auth";
+import {
+  apiError,
+  errorResponse,
+  handleRouteError,
+} from "../../../../lib/server/errors";
+import { updateSession } from "../../../../lib/server/sessionStore";
+import { dropLastExchange } from "../../../../lib/turns";
+export const runtime = "nodejs";
+
+// Takes back the VA's last line and the patient's reply to it, so the next
+// turn continues as if that exchange never happened.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await requireSession(req, id);
+
+    const session = await updateSession(id, (latest) => {
+      if (latest.endedAt || latest.outcome) {
+        throw apiError("call_ended", "This call has already ended");
+      }
+      const kept = dropLastExchange(latest.turns);
+      if (!kept) throw apiError("bad_input", "There is nothing to undo yet");
+      return { ...latest, turns: kept };
+    });
+    if (!session) {
+      return errorResponse("session_not_found", "Session not found");
+    }
+
+    return NextResponse.json({ session });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ConversationSession } from "../../types/session";
+import { seedAppointmentBook, toDateKey } from "../../lib/calendar";
+import { parseClinicConfig } from "../../lib/clinicConfig";
+import { newId } from "../../lib/ids";
+import { parseOfficeHours } from "../../lib/officeHours";
+import { getAccountStore } from "../../lib/server/accountStore";
+import { requireAccount } from "../../lib/server/auth";
+import { errorResponse, handleRouteError } from "../../lib/server/errors";
+import {
+  getSessionStore,
+  sweepExpiredSessions,
+} from "../../lib/server/sessionStore";
+import {
+  parseInputMode,
+  parsePersona,
+  parseStartDetails,
+} from "../../lib/server/validation";
+export const runtime = "nodejs";
+
+// Starts a call. The clinic and persona are snapshotted here; later turns
+// only send the session id plus the VA's new line. An `assignmentId` must
+// be one of the VA's own assignments; ending the call completes it. Coaching
+// is locked off for assignments without it and for `coaching: false`.
+export async function POST(req: NextRequest) {
+  try {
+    const account = await requireAccount(req);
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("bad_input", "Request body must be JSON");
+    }
+
+    // Older pages send a v1 clinicConfig; it is migrated after validation.
+    const clinic = parseClinicConfig(body?.clinicConfig);
+    const persona = parsePersona(body?.persona);
+    const inputMode = parseInputMode(body?.inputMode);
+    const details = parseStartDetails(body);
+
+    if (!clinic.ok || !persona.ok || !inputMode.ok || !details.ok) {
+      return errorResponse("bad_input", "Invalid session details", [
+        ...(clinic.ok ? [] : clinic.errors),
+        ...(persona.ok ? [] : persona.errors),
+        ...(inputMode.ok ? [] : inputMode.errors),
+        ...(details.ok ? [] : details.errors),
+      ]);
+    }
+
+    const { assignmentId, coaching } = details.value;
+    const now = new Date();
+    const callDate = details.value.callDate ?? toDateKey(now);
+    const assignment = assignmentId
+      ? await getAccountStore().getAssignment(assignmentId)
+      : null;
+    if (assignmentId && assignment?.vaId !== account.id) {
+      return errorResponse("not_found", "Assignment not found");
+    }
+    const coachingLocked = coaching === false || assignment?.coaching === false;
+
+    // Seeded per persona and the page's day, like the calendar it shows.
+    const session: ConversationSession = {
+      id: newId(),
+      persona: persona.value,
+      clinic: clinic.config,
+      inputMode: inputMode.value,
+      startedAt: now.toISOString(),
+      callDate,
+      endedAt: null,
+      turns: [],
+      outcome: null,
+      calendar: seedAppointmentBook(
+        parseOfficeHours(clinic.config.officeHours),
+        callDate,
+        persona.value.id
+      ),
+      trainee: { id: account.id, name: account.displayName },
+      ...(assignmentId && { assignmentId }),
+      ...(coachingLocked && { coachingLocked }),
+    };
+
+    await getSessionStore().save(session);
+    await sweepExpiredSessions();
+
+    return NextResponse.json({ sessionId: session.id, session });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
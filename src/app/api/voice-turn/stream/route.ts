@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { TurnStreamEvent } from "../../../types/turn";
+import { requireAccount } from "../../../lib/server/auth";
+import { handleRouteError, toErrorBody } from "../../../lib/server/errors";
+import { streamPatientTurn } from "../../../lib/server/patientTurn";
+import {
+  readTurnRequest,
+  saveTurnResult,
+} from "../../../lib/server/turnRequest";
+export const runtime = "nodejs";
+
+// Same form as POST /api/voice-turn, answered as server-sent events so the
+// page can show and play the patient's reply while it is still generated.
+// Bad requests still get a plain JSON error before the stream starts.
+export async function POST(req: NextRequest) {
+  try {
+    const account = await requireAccount(req);
+    const request = await readTurnRequest(await req.formData(), account);
+    if (request instanceof NextResponse) return request;
+
+    const { session, input, speak } = request;
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = ({ type, ...data }: TurnStreamEvent) =>
+          controller.enqueue(
+            encoder.encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`)
+          );
+
+        try {
+          const result = await streamPatientTurn(session, input, speak, send);
+          await saveTurnResult(session, result);
+          send({ type: "done", result });
+        } catch (err) {
+          console.error(err);
+          send({ type: "error", ...toErrorBody(err) });
+        } finally {
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
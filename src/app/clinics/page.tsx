@@ -0,0 +1,232 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { ClinicProfile } from "../types/config";
+import {
+  clinicProfiles,
+  duplicateProfile,
+  parseProfileFile,
+  profileToFile,
+} from "../lib/clinicProfiles";
+import TrainerOnly from "../components/TrainerOnly";
+
+function downloadJson(filename: string, json: string) {
+  const url = URL.createObjectURL(
+    new Blob([json], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function fileNameFor(profile: ClinicProfile) {
+  const slug = profile.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "clinic"}.clinic.json`;
+}
+
+function loadProfiles() {
+  return Promise.all([clinicProfiles.list(), clinicProfiles.getActive()]);
+}
+
+export default function ClinicsPage() {
+  return (
+    <TrainerOnly>
+      <ClinicProfiles />
+    </TrainerOnly>
+  );
+}
+
+function ClinicProfiles() {
+  const [profiles, setProfiles] = useState<ClinicProfile[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  function show([list, active]: Awaited<ReturnType<typeof loadProfiles>>) {
+    setProfiles(list);
+    setActiveId(active?.id ?? null);
+  }
+
+  async function refresh() {
+    show(await loadProfiles());
+  }
+
+  useEffect(() => {
+    loadProfiles()
+      .then(show)
+      .catch((err) => console.error("Failed to load clinic profiles", err))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  async function handleUse(profile: ClinicProfile) {
+    await clinicProfiles.setActive(profile.id);
+    setActiveId(profile.id);
+  }
+
+  // Saving goes to the server now, so it can fail.
+  async function change(run: () => Promise<void>) {
+    setError(null);
+    try {
+      await run();
+      await refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  function handleDuplicate(profile: ClinicProfile) {
+    return change(async () => {
+      await clinicProfiles.save(duplicateProfile(profile));
+    });
+  }
+
+  function handleDelete(profile: ClinicProfile) {
+    if (!confirm(`Delete the "${profile.name}" clinic?`)) return;
+    return change(() => clinicProfiles.remove(profile.id));
+  }
+
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow importing the same file again
+    if (!file) return;
+
+    setMessage(null);
+    const check = parseProfileFile(await file.text());
+    if (!check.ok) {
+      setImportErrors(check.errors);
+      return;
+    }
+
+    setImportErrors([]);
+    await change(async () => {
+      const saved = await clinicProfiles.save(check.profile);
+      setMessage(`Imported "${saved.name}".`);
+    });
+  }
+
+  return (
+    <main className="min-h-screen bg-slate-50 flex justify-center p-6">
+      <div className="w-full max-w-4xl space-y-6">
+        <header className="flex items-center justify-between border-b pb-4">
+          <h1 className="text-2xl font-bold">Clinics</h1>
+          <div className="flex gap-2">
+            <Link
+              href="/setup"
+              className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+            >
+              + New clinic
+            </Link>
+            <label className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100 cursor-pointer">
+              Import JSON
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImport}
+              />
+            </label>
+            <Link
+              href="/home"
+              className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+            >
+              ← Back to personas
+            </Link>
+          </div>
+        </header>
+
+        {message && <p className="text-sm text-emerald-700">{message}</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {importErrors.length > 0 && (
+          <div className="text-sm text-red-600">
+            <p className="font-medium">That file could not be imported:</p>
+            <ul className="list-disc pl-5">
+              {importErrors.map((err, i) => (
+                <li key={i}>{err}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <section className="space-y-3">
+          {loaded && profiles.length === 0 && (
+            <p className="text-sm text-slate-500">
+              No clinics yet. Create one, or import a file a teammate shared.
+            </p>
+          )}
+
+          {profiles.map((profile) => (
+            <div
+              key={profile.id}
+              className="flex items-center justify-between rounded-xl border bg-white p-4 shadow-sm"
+            >
+              <div>
+                <h2 className="font-semibold">
+                  {profile.name}
+                  {profile.id === activeId && (
+                    <span className="ml-2 text-xs font-normal text-emerald-700">
+                      Active
+                    </span>
+                  )}
+                </h2>
+                <p className="text-xs text-slate-500">
+                  {profile.config.clinicName} &middot;{" "}
+                  {profile.config.doctorName} &middot;{" "}
+                  {profile.config.services.length} services &middot; updated{" "}
+                  {new Date(profile.updatedAt).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex gap-3 text-xs">
+                {profile.id !== activeId && (
+                  <button
+                    type="button"
+                    onClick={() => handleUse(profile)}
+                    className="underline text-slate-700"
+                  >
+                    Use
+                  </button>
+                )}
+                <Link
+                  href={`/setup?id=${encodeURIComponent(profile.id)}`}
+                  className="underline text-slate-700"
+                >
+                  Edit
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => handleDuplicate(profile)}
+                  className="underline text-slate-700"
+                >
+                  Duplicate
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    downloadJson(fileNameFor(profile), profileToFile(profile))
+                  }
+                  className="underline text-slate-700"
+                >
+                  Export
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(profile)}
+                  className="underline text-red-600"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import Link from "next/link";
+import { createContext, useContext, useEffect, useState } from "react";
+import type { ReactNode } from "react";
+import type { Account } from "../types/account";
+import type { AuthState } from "../lib/accounts";
+import { getAuthState, ROLE_LABELS, signOut } from "../lib/accounts";
+import SignInForm from "./SignInForm";
+
+const AccountContext = createContext<Account | null>(null);
+
+// The signed-in account. Only pages inside AccountProvider render, so
+// there always is one.
+export function useAccount() {
+  const account = useContext(AccountContext);
+  if (!account) throw new Error("useAccount needs an AccountProvider");
+  return account;
+}
+
+// Wraps every page: shows the sign-in form until someone is signed in.
+export default function AccountProvider({ children }: { children: ReactNode }) {
+  const [auth, setAuth] = useState<AuthState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAuthState()
+      .then(setAuth)
+      .catch((err) => setError((err as Error).message));
+  }, []);
+
+  async function handleSignOut() {
+    try {
+      await signOut();
+      setAuth({ account: null, firstRun: false });
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  if (!auth) {
+    return (
+      <p className="p-6 text-sm text-slate-500">
+        {error ?? "Loading…"}
+      </p>
+    );
+  }
+
+  if (!auth.account) {
+    return (
+      <SignInForm
+        firstRun={auth.firstRun}
+        onSignedIn={(account) => setAuth({ account, firstRun: false })}
+      />
+    );
+  }
+
+  return (
+    <AccountContext value={auth.account}>
+      <div className="flex justify-end gap-3 border-b bg-white px-6 py-2 text-xs text-slate-600">
+        <span>
+          {auth.account.displayName} &middot; {ROLE_LABELS[auth.account.role]}
+        </span>
+        {auth.account.role === "trainer" && (
+          <>
+            <Link href="/dashboard" className="underline">
+              Dashboard
+            </Link>
+            <Link href="/team" className="underline">
+              Team
+            </Link>
+          </>
+        )}
+        <button type="button" onClick={handleSignOut} className="underline">
+          Sign out
+        </button>
+      </div>
+      {children}
+    </AccountContext>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { TextSpan } from "../types/annotation";
+import type { Turn } from "../types/call";
+import type { AnnotationInput } from "../lib/annotations";
+import {
+  ANNOTATION_LABELS,
+  checkAnnotation,
+  MAX_COMMENT_LENGTH,
+  MAX_LABEL_LENGTH,
+} from "../lib/annotations";
+
+type Props = {
+  turns: Turn[];
+  turnIndex: number;
+  onAdd: (input: AnnotationInput) => void;
+  onCancel: () => void;
+};
+
+// Selecting part of the line highlights it under the label; a comment is
+// feedback the VA has to resolve.
+export default function AnnotationForm({
+  turns,
+  turnIndex,
+  onAdd,
+  onCancel,
+}: Props) {
+  const lineRef = useRef<HTMLTextAreaElement | null>(null);
+  const [span, setSpan] = useState<TextSpan | null>(null);
+  const [label, setLabel] = useState("");
+  const [comment, setComment] = useState("");
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const turn = turns[turnIndex];
+
+  function handleSelect() {
+    const line = lineRef.current;
+    if (!line) return;
+    const { selectionStart: start, selectionEnd: end } = line;
+    setSpan(start < end ? { start, end } : null);
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const input: AnnotationInput = {
+      turnIndex,
+      span: span ?? undefined,
+      label: label.trim() || undefined,
+      comment: comment.trim() || undefined,
+    };
+    const found = checkAnnotation(turns, input);
+    setProblems(found);
+    if (found.length === 0) onAdd(input);
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-lg border bg-white p-3 space-y-2 text-sm"
+    >
+      <p className="font-medium">
+        Comment on the {turn?.role === "staff" ? "VA" : "patient"}&apos;s line
+      </p>
+      <textarea
+        ref={lineRef}
+        readOnly
+        value={turn?.text ?? ""}
+        onSelect={handleSelect}
+        rows={3}
+        className="w-full rounded border bg-slate-50 px-2 py-1"
+      />
+      <p className="text-xs text-slate-500">
+        {span
+          ? `Highlighting “${turn?.text.slice(span.start, span.end)}”`
+          : "Select part of the line to highlight it, or comment on the whole line."}
+      </p>
+
+      <label className="flex flex-col gap-1">
+        <span className="font-medium">Label</span>
+        <input
+          list="annotation-labels"
+          value={label}
+          maxLength={MAX_LABEL_LENGTH}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="e.g. Great empathy"
+          className="rounded border px-2 py-1"
+        />
+        <datalist id="annotation-labels">
+          {ANNOTATION_LABELS.map((option) => (
+            <option key={option} value={option} />
+          ))}
+        </datalist>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="font-medium">Comment for the VA</span>
+        <textarea
+          value={comment}
+          maxLength={MAX_COMMENT_LENGTH}
+          onChange={(e) => setComment(e.target.value)}
+          rows={2}
+          placeholder="Optional when a label says it all"
+          className="rounded border px-2 py-1"
+        />
+      </label>
+
+      {problems.length > 0 && (
+        <ul className="list-disc pl-5 text-xs text-red-600">
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="text-xs rounded bg-black px-3 py-1 font-semibold text-white hover:bg-slate-900"
+        >
+          Add
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import type { AppointmentBook, CalendarSlot } from "../types/calendar";
+import type { WeeklySchedule } from "../lib/officeHours";
+import { formatMinutes } from "../lib/officeHours";
+import { bookingAt, describeDate, slotTimes } from "../lib/calendar";
+
+type Props = {
+  book: AppointmentBook;
+  schedule: WeeklySchedule;
+  // Without it the calendar is read-only, e.g. in call history.
+  onBook?: (slot: CalendarSlot) => void;
+  disabled?: boolean;
+};
+
+// The clinic's appointment book: open slots can be booked for the patient
+// on the call, taken ones show who has them.
+export default function AppointmentCalendar({
+  book,
+  schedule,
+  onBook,
+  disabled,
+}: Props) {
+  if (book.dates.length === 0) {
+    return (
+      <p className="text-sm text-slate-500">
+        No open days found. Check the office hours in Setup.
+      </p>
+    );
+  }
+
+  const openTimes = new Map(
+    book.dates.map((date) => [date, new Set(slotTimes(schedule, date))])
+  );
+  const times = [...new Set([...openTimes.values()].flatMap((t) => [...t]))].sort(
+    (a, b) => a - b
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th className="py-1 pr-2" />
+            {book.dates.map((date) => (
+              <th key={date} className="py-1 px-1 font-semibold">
+                {describeDate(date)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {times.map((start) => (
+            <tr key={start}>
+              <td className="py-0.5 pr-2 text-slate-500 whitespace-nowrap">
+                {formatMinutes(start)}
+              </td>
+              {book.dates.map((date) => {
+                if (!openTimes.get(date)?.has(start)) {
+                  return <td key={date} className="px-1" />;
+                }
+                const booking = bookingAt(book, { date, start });
+                return (
+                  <td key={date} className="px-1 py-0.5">
+                    {booking ? (
+                      <span
+                        className={`block rounded px-1 py-0.5 truncate ${
+                          booking.fromCall
+                            ? "bg-emerald-600 text-white font-semibold"
+                            : "bg-slate-100 text-slate-400"
+                        }`}
+                        title={booking.patientName}
+                      >
+                        {booking.fromCall ? `✓ ${booking.patientName}` : "Taken"}
+                      </span>
+                    ) : (
+                      <button
+                        type="button"
+                        disabled={!onBook || disabled}
+                        onClick={() => onBook?.({ date, start })}
+                        className="block w-full rounded border border-emerald-300 px-1 py-0.5 text-emerald-700 hover:bg-emerald-50 disabled:opacity-60 disabled:hover:bg-transparent"
+                      >
+                        Open
+                      </button>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
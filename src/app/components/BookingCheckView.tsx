@@ -0,0 +1,32 @@
+"use client";
+
+import type { BookingCheck } from "../types/calendar";
+import { describeSlot } from "../lib/calendar";
+
+type Props = {
+  check: BookingCheck;
+};
+
+export default function BookingCheckView({ check }: Props) {
+  return (
+    <div className="space-y-1 text-sm">
+      <p>
+        Patient agreed to <strong>{check.agreed}</strong>
+        {check.slot && (
+          <span className="text-slate-500"> ({describeSlot(check.slot)})</span>
+        )}
+      </p>
+      {check.problems.length === 0 ? (
+        <p className="text-emerald-700">
+          Inside office hours, free, and booked in the calendar.
+        </p>
+      ) : (
+        <ul className="list-disc pl-5 space-y-1 text-red-600">
+          {check.problems.map((problem, i) => (
+            <li key={i}>{problem}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { MixedRecording } from "../types/recording";
+import { turnAt } from "../lib/audioMix";
+import { formatDuration } from "../lib/callActions";
+
+type Props = {
+  recording: MixedRecording;
+  // The turn being heard, or null in a pause.
+  onTurnChange: (turnIndex: number | null) => void;
+};
+
+// Plays the whole call as one track, with a timeline of who spoke when.
+// Clicking the timeline seeks; the mixed track is also the download.
+export default function CallReplay({ recording, onTurnChange }: Props) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const url = URL.createObjectURL(recording.audio);
+    audio.src = url;
+    return () => URL.revokeObjectURL(url);
+  }, [recording]);
+
+  function handleExport() {
+    const url = URL.createObjectURL(recording.audio);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `call-${recording.callId}.wav`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function handleTimeUpdate() {
+    const ms = (audioRef.current?.currentTime ?? 0) * 1000;
+    setPositionMs(ms);
+    onTurnChange(turnAt(recording, ms));
+  }
+
+  function seek(e: React.MouseEvent<HTMLDivElement>) {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const share = (e.clientX - rect.left) / rect.width;
+    audio.currentTime = (share * recording.durationMs) / 1000;
+    handleTimeUpdate();
+  }
+
+  const percent = (ms: number) => `${(ms / recording.durationMs) * 100}%`;
+
+  return (
+    <section className="rounded-xl border bg-white p-4 shadow-sm space-y-3">
+      <div className="flex items-baseline justify-between">
+        <h2 className="text-lg font-semibold">Replay</h2>
+        <div className="flex items-center gap-3 text-xs">
+          <span className="text-blue-600">&#9679; VA</span>
+          <span className="text-slate-500">&#9679; Patient</span>
+          <button
+            type="button"
+            onClick={handleExport}
+            className="rounded border px-3 py-1 bg-white hover:bg-slate-100"
+          >
+            Export audio
+          </button>
+        </div>
+      </div>
+
+      <div
+        className="relative h-8 w-full cursor-pointer rounded bg-slate-100"
+        onClick={seek}
+        role="slider"
+        aria-label="Call timeline"
+        aria-valuemin={0}
+        aria-valuemax={recording.durationMs}
+        aria-valuenow={Math.round(positionMs)}
+      >
+        {recording.clips.map((clip, i) => (
+          <div
+            key={i}
+            className={`absolute top-1 bottom-1 rounded-sm ${
+              clip.role === "staff" ? "bg-blue-400" : "bg-slate-400"
+            }`}
+            style={{
+              left: percent(clip.startMs),
+              width: percent(clip.durationMs),
+            }}
+          />
+        ))}
+        <div
+          className="absolute top-0 bottom-0 w-0.5 bg-red-600"
+          style={{ left: percent(positionMs) }}
+        />
+      </div>
+
+      {failed ? (
+        <p className="text-sm text-red-600">
+          This recording could not be played in this browser.
+        </p>
+      ) : (
+        <div className="flex items-center gap-3">
+          <audio
+            ref={audioRef}
+            controls
+            onError={() => setFailed(true)}
+            onTimeUpdate={handleTimeUpdate}
+            onSeeked={handleTimeUpdate}
+            onEnded={() => onTurnChange(null)}
+            className="flex-1"
+          />
+          <span className="text-xs text-slate-500">
+            {formatDuration(positionMs)} / {formatDuration(recording.durationMs)}
+          </span>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { ClinicProfile } from "../types/config";
+import { clinicProfiles } from "../lib/clinicProfiles";
+import { useAccount } from "./AccountProvider";
+
+type Props = {
+  active: ClinicProfile | null;
+  onChange: (profile: ClinicProfile) => void;
+  disabled?: boolean;
+};
+
+// Picks which clinic profile training calls use. The choice is remembered
+// by the profile store, so every page sees the same active clinic.
+export default function ClinicSwitcher({ active, onChange, disabled }: Props) {
+  const account = useAccount();
+  const [profiles, setProfiles] = useState<ClinicProfile[]>([]);
+
+  useEffect(() => {
+    clinicProfiles
+      .list()
+      .then(setProfiles)
+      .catch((err) => console.error("Failed to load clinic profiles", err));
+  }, []);
+
+  async function handleSelect(id: string) {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    await clinicProfiles.setActive(id);
+    onChange(profile);
+  }
+
+  return (
+    <span className="inline-flex items-center gap-2">
+      <strong>Clinic:</strong>
+      {profiles.length === 0 ? (
+        <span>Not set</span>
+      ) : (
+        <select
+          className="rounded border px-2 py-1 text-sm bg-white disabled:opacity-60"
+          value={active?.id ?? ""}
+          disabled={disabled}
+          onChange={(e) => handleSelect(e.target.value)}
+        >
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+      )}
+      {account.role === "trainer" && (
+        <Link href="/clinics" className="text-xs underline text-slate-700">
+          Manage clinics
+        </Link>
+      )}
+    </span>
+  );
+}
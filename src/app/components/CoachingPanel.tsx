@@ -0,0 +1,42 @@
+"use client";
+
+import type { CoachingTip } from "../types/coaching";
+
+type Props = {
+  tip: CoachingTip | null;
+  loading: boolean;
+};
+
+export default function CoachingPanel({ tip, loading }: Props) {
+  return (
+    <aside className="rounded-lg border bg-white p-3 text-sm space-y-2">
+      <h3 className="text-xs font-semibold uppercase text-slate-500">Coach</h3>
+
+      {!tip && !loading && (
+        <p className="text-slate-400">
+          Tips appear here after each thing the patient says.
+        </p>
+      )}
+      {loading && <p className="text-slate-400">Thinking…</p>}
+
+      {tip && !loading && (
+        <>
+          <p
+            className={`font-semibold ${
+              tip.objection ? "text-amber-700" : "text-slate-800"
+            }`}
+          >
+            {tip.objection ? "Objection: " : "Patient: "}
+            {tip.intent}
+          </p>
+          <p className="text-xs text-slate-500">You could say:</p>
+          <ul className="list-disc pl-5 space-y-1">
+            {tip.suggestions.map((s, i) => (
+              <li key={i}>{s}</li>
+            ))}
+          </ul>
+        </>
+      )}
+    </aside>
+  );
+}
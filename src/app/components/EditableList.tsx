@@ -0,0 +1,126 @@
+"use client";
+
+export type EditableField<T> = {
+  key: keyof T & string;
+  label: string;
+  type?: "text" | "textarea" | "price";
+  placeholder?: string;
+};
+
+type Props<T extends { id: string }> = {
+  items: T[];
+  fields: EditableField<T>[];
+  onChange: (items: T[]) => void;
+  newItem: () => T;
+  addLabel: string;
+  emptyText?: string;
+  reorderable?: boolean; // for lists whose order matters, like the call script
+};
+
+// A list of small records (services, policies, FAQs) edited in place.
+// "price" fields hold a number, or null when left blank.
+export default function EditableList<T extends { id: string }>({
+  items,
+  fields,
+  onChange,
+  newItem,
+  addLabel,
+  emptyText,
+  reorderable = false,
+}: Props<T>) {
+  function update(id: string, key: keyof T, value: T[keyof T]) {
+    onChange(items.map((item) => (item.id === id ? { ...item, [key]: value } : item)));
+  }
+
+  function move(from: number, to: number) {
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.length === 0 && emptyText && (
+        <p className="text-xs text-slate-500">{emptyText}</p>
+      )}
+
+      {items.map((item, index) => (
+        <div key={item.id} className="rounded border bg-slate-50 p-3 space-y-2">
+          {fields.map(({ key, label, type = "text", placeholder }) => (
+            <label key={key} className="block text-xs">
+              <span className="font-medium">{label}</span>
+              {type === "textarea" ? (
+                <textarea
+                  className="mt-1 w-full rounded border px-3 py-2 text-sm bg-white"
+                  rows={2}
+                  placeholder={placeholder}
+                  value={String(item[key] ?? "")}
+                  onChange={(e) =>
+                    update(item.id, key, e.target.value as T[keyof T])
+                  }
+                />
+              ) : (
+                <input
+                  type={type === "price" ? "number" : "text"}
+                  min={type === "price" ? 0 : undefined}
+                  className="mt-1 w-full rounded border px-3 py-2 text-sm bg-white"
+                  placeholder={placeholder}
+                  value={item[key] === null ? "" : String(item[key])}
+                  onChange={(e) =>
+                    update(
+                      item.id,
+                      key,
+                      (type === "price"
+                        ? e.target.value === ""
+                          ? null
+                          : Number(e.target.value)
+                        : e.target.value) as T[keyof T]
+                    )
+                  }
+                />
+              )}
+            </label>
+          ))}
+          <div className="flex gap-3">
+            {reorderable && (
+              <>
+                <button
+                  type="button"
+                  disabled={index === 0}
+                  onClick={() => move(index, index - 1)}
+                  className="text-xs text-slate-700 hover:underline disabled:opacity-40"
+                >
+                  Move up
+                </button>
+                <button
+                  type="button"
+                  disabled={index === items.length - 1}
+                  onClick={() => move(index, index + 1)}
+                  className="text-xs text-slate-700 hover:underline disabled:opacity-40"
+                >
+                  Move down
+                </button>
+              </>
+            )}
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((i) => i.id !== item.id))}
+              className="text-xs text-red-600 hover:underline"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...items, newItem()])}
+        className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+      >
+        {addLabel}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import type { ChecklistResult } from "../types/checklist";
+import type { ClinicConfig } from "../types/config";
+import { fillScriptPlaceholders } from "../lib/callScript";
+
+type Props = {
+  missed: ChecklistResult[];
+  total: number;
+  clinic: ClinicConfig; // for the example wording, when still known
+};
+
+export default function MissedScriptItems({ missed, total, clinic }: Props) {
+  if (missed.length === 0) {
+    return (
+      <p className="text-sm text-emerald-700">
+        All {total} script items were covered.
+      </p>
+    );
+  }
+
+  return (
+    <div className="text-sm space-y-1">
+      <p className="text-red-600">
+        Missed {missed.length} of {total} script items:
+      </p>
+      <ul className="list-disc pl-5 space-y-1">
+        {missed.map((r) => {
+          const item = clinic.script.find((s) => s.id === r.itemId);
+          const example = item && fillScriptPlaceholders(item.example, clinic);
+          return (
+            <li key={r.itemId}>
+              <span className="font-medium">{r.label}</span>
+              {example && (
+                <span className="text-slate-500">
+                  {" "}
+                  &ndash; e.g. &ldquo;{example}&rdquo;
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import type { Turn } from "../types/call";
+import type { PatientMood } from "../types/scenario";
+import { MOOD_KEYS, MOOD_LABELS, moodTimeline } from "../lib/mood";
+
+type Props = {
+  turns: Turn[];
+};
+
+const COLORS: Record<keyof PatientMood, string> = {
+  trust: "#059669", // emerald-600
+  frustration: "#dc2626", // red-600
+  interest: "#2563eb", // blue-600
+};
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PAD = 24;
+
+// How the patient's trust, frustration and interest moved over the call.
+// Hover a point to see the VA line the patient was reacting to.
+export default function MoodTimeline({ turns }: Props) {
+  const points = moodTimeline(turns);
+  if (points.length === 0) return null;
+
+  const x = (i: number) =>
+    points.length === 1
+      ? WIDTH / 2
+      : PAD + (i * (WIDTH - 2 * PAD)) / (points.length - 1);
+  const y = (value: number) => HEIGHT - PAD - (value * (HEIGHT - 2 * PAD)) / 10;
+
+  return (
+    <section className="rounded-xl border bg-white p-4 shadow-sm space-y-3">
+      <div className="flex items-baseline justify-between">
+        <h2 className="text-lg font-semibold">Patient Mood</h2>
+        <div className="flex gap-3 text-xs">
+          {MOOD_KEYS.map((key) => (
+            <span key={key} style={{ color: COLORS[key] }}>
+              &#9679; {MOOD_LABELS[key]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-40"
+        role="img"
+        aria-label="Patient mood over the call"
+      >
+        {[0, 5, 10].map((v) => (
+          <g key={v}>
+            <line
+              x1={PAD}
+              x2={WIDTH - PAD}
+              y1={y(v)}
+              y2={y(v)}
+              stroke="#e2e8f0"
+            />
+            <text x={4} y={y(v) + 4} fontSize={10} fill="#64748b">
+              {v}
+            </text>
+          </g>
+        ))}
+
+        {MOOD_KEYS.map((key) => (
+          <polyline
+            key={key}
+            fill="none"
+            stroke={COLORS[key]}
+            strokeWidth={2}
+            points={points.map((p, i) => `${x(i)},${y(p.mood[key])}`).join(" ")}
+          />
+        ))}
+
+        {points.map((p, i) =>
+          MOOD_KEYS.map((key) => (
+            <circle
+              key={`${i}-${key}`}
+              cx={x(i)}
+              cy={y(p.mood[key])}
+              r={3.5}
+              fill={COLORS[key]}
+            >
+              <title>
+                {`Reply ${i + 1} · ${MOOD_LABELS[key]} ${p.mood[key]}/10\nAfter: "${
+                  turns[p.turnIndex - 1]?.text ?? ""
+                }"`}
+              </title>
+            </circle>
+          ))
+        )}
+      </svg>
+    </section>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import type { CallOutcome, ScenarioGoal } from "../types/scenario";
+import { OUTCOME_LABELS } from "../lib/scenarios";
+
+type Props = {
+  outcome: CallOutcome;
+  goal: ScenarioGoal;
+};
+
+export default function OutcomeBanner({ outcome, goal }: Props) {
+  return (
+    <div
+      className={`rounded-xl border p-4 shadow-sm ${
+        outcome.goalMet
+          ? "border-emerald-300 bg-emerald-50 text-emerald-900"
+          : "border-red-300 bg-red-50 text-red-900"
+      }`}
+    >
+      <p className="text-xs font-semibold uppercase">
+        Goal: {goal.label} &middot; {outcome.goalMet ? "Met" : "Not met"}
+      </p>
+      <p className="text-2xl font-bold">
+        {OUTCOME_LABELS[outcome.status]}
+        {outcome.bookedSlot && ` – ${outcome.bookedSlot}`}
+      </p>
+    </div>
+  );
+}
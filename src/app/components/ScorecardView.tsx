@@ -0,0 +1,112 @@
+"use client";
+
+import type { Scorecard } from "../types/score";
+import { SCORE_CATEGORIES } from "../lib/scoring";
+
+type Props = {
+  scorecard: Scorecard;
+};
+
+function scoreColor(score: number) {
+  if (score >= 8) return "text-emerald-700";
+  if (score >= 5) return "text-amber-700";
+  return "text-red-600";
+}
+
+export default function ScorecardView({ scorecard }: Props) {
+  return (
+    <section className="space-y-4">
+      <div className="rounded-xl border bg-white p-4 shadow-sm">
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-lg font-semibold">Call Score</h2>
+          <span className="text-3xl font-bold">{scorecard.overall}</span>
+        </div>
+        {scorecard.summary && (
+          <p className="mt-2 text-sm text-slate-600">{scorecard.summary}</p>
+        )}
+        {scorecard.criteria && scorecard.criteria.length > 0 && (
+          <div className="mt-3">
+            <p className="text-xs font-semibold text-slate-500 uppercase">
+              Success Criteria
+            </p>
+            <ul className="mt-1 space-y-1 text-sm">
+              {scorecard.criteria.map(({ criterion, met }) => (
+                <li
+                  key={criterion}
+                  className={met ? "text-emerald-700" : "text-red-600"}
+                >
+                  {met ? "✓" : "✗"} {criterion}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {scorecard.actions && scorecard.actions.length > 0 && (
+          <div className="mt-3">
+            <p className="text-xs font-semibold text-slate-500 uppercase">
+              Call Actions
+            </p>
+            <ul className="mt-1 space-y-1 text-sm">
+              {scorecard.actions.map(({ event, appropriate, comment }, i) => (
+                <li key={i}>
+                  <span
+                    className={appropriate ? "text-emerald-700" : "text-red-600"}
+                  >
+                    {appropriate ? "✓" : "✗"} {event}
+                  </span>
+                  {comment && (
+                    <span className="text-slate-600"> &ndash; {comment}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {SCORE_CATEGORIES.map(({ id, label }) => {
+          const category = scorecard.categories[id];
+          return (
+            <div key={id} className="rounded-xl border bg-white p-4 shadow-sm">
+              <div className="flex items-baseline justify-between mb-2">
+                <h3 className="font-semibold">{label}</h3>
+                <span className={`font-bold ${scoreColor(category.score)}`}>
+                  {category.score}/10
+                </span>
+              </div>
+
+              {category.evidence.length > 0 && (
+                <div className="mb-2">
+                  <p className="text-xs font-semibold text-slate-500 uppercase">
+                    Evidence
+                  </p>
+                  <ul className="mt-1 space-y-1 text-sm text-slate-700">
+                    {category.evidence.map((quote, i) => (
+                      <li key={i} className="border-l-2 pl-2 italic">
+                        &ldquo;{quote}&rdquo;
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {category.tips.length > 0 && (
+                <div>
+                  <p className="text-xs font-semibold text-slate-500 uppercase">
+                    Coaching
+                  </p>
+                  <ul className="mt-1 list-disc pl-5 space-y-1 text-sm text-slate-700">
+                    {category.tips.map((tip, i) => (
+                      <li key={i}>{tip}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
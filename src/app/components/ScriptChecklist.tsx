@@ -0,0 +1,34 @@
+"use client";
+
+import type { ChecklistResult } from "../types/checklist";
+
+type Props = {
+  results: ChecklistResult[];
+};
+
+// The clinic's call script, ticked off as the VA covers each item.
+export default function ScriptChecklist({ results }: Props) {
+  const done = results.filter((r) => r.turnIndex !== null).length;
+
+  return (
+    <aside className="rounded-lg border bg-white p-3 text-sm space-y-2">
+      <h3 className="text-xs font-semibold uppercase text-slate-500">
+        Call Script &middot; {done}/{results.length}
+      </h3>
+      <ol className="space-y-1">
+        {results.map((r) => (
+          <li
+            key={r.itemId}
+            className={
+              r.turnIndex !== null
+                ? "text-emerald-700 line-through"
+                : "text-slate-700"
+            }
+          >
+            {r.turnIndex !== null ? "☑" : "☐"} {r.label}
+          </li>
+        ))}
+      </ol>
+    </aside>
+  );
+}
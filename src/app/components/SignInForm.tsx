@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import type { Account } from "../types/account";
+import { createAccount, signIn } from "../lib/accounts";
+
+type Props = {
+  // No accounts exist yet: this form creates the first trainer.
+  firstRun: boolean;
+  onSignedIn: (account: Account) => void;
+};
+
+export default function SignInForm({ firstRun, onSignedIn }: Props) {
+  const [username, setUsername] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      onSignedIn(
+        firstRun
+          ? await createAccount({ username, displayName, password, role: "trainer" })
+          : await signIn(username, password)
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-6 bg-slate-50">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm rounded-xl border bg-white p-6 shadow-sm space-y-4 text-sm"
+      >
+        <div>
+          <h1 className="text-2xl font-bold">
+            {firstRun ? "Create the trainer account" : "Sign in"}
+          </h1>
+          <p className="text-slate-600">
+            {firstRun
+              ? "This is the first account, so it can set up the clinic and add everyone else."
+              : "Ask your trainer for an account if you don't have one."}
+          </p>
+        </div>
+
+        {firstRun && (
+          <label className="flex flex-col gap-1">
+            <span className="font-medium">Your name</span>
+            <input
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              className="rounded border px-2 py-1"
+              autoComplete="name"
+            />
+          </label>
+        )}
+        <label className="flex flex-col gap-1">
+          <span className="font-medium">Username</span>
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="rounded border px-2 py-1"
+            autoComplete="username"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-medium">Password</span>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="rounded border px-2 py-1"
+            autoComplete={firstRun ? "new-password" : "current-password"}
+          />
+        </label>
+
+        {error && <p className="text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isBusy}
+          className="w-full rounded bg-black px-5 py-2 text-sm font-semibold text-white hover:bg-slate-900 disabled:opacity-60"
+        >
+          {firstRun ? "Create account" : "Sign in"}
+        </button>
+      </form>
+    </main>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import type { SpeechMetrics } from "../types/speechMetrics";
+import { formatSeconds } from "../lib/speechMetrics";
+
+type Props = {
+  metrics: SpeechMetrics;
+};
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="text-xs font-semibold text-slate-500 uppercase">{label}</p>
+      <p className="text-lg font-bold">{value}</p>
+    </div>
+  );
+}
+
+export default function SpeechMetricsView({ metrics }: Props) {
+  const { longestMonologue: longest } = metrics;
+  const fillerBreakdown = Object.entries(metrics.fillers)
+    .sort(([, a], [, b]) => b - a)
+    .map(([word, n]) => `${word} ×${n}`)
+    .join(", ");
+
+  return (
+    <section className="rounded-xl border bg-white p-4 shadow-sm space-y-4">
+      <h2 className="text-lg font-semibold">Delivery</h2>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+        <Stat
+          label="Pace"
+          value={
+            metrics.wordsPerMinute === null
+              ? "–"
+              : `${metrics.wordsPerMinute} wpm`
+          }
+        />
+        <Stat label="Filler words" value={String(metrics.fillerCount)} />
+        <Stat
+          label={
+            metrics.talkRatioBasis === "time" ? "You talked" : "Your words"
+          }
+          value={
+            metrics.talkRatio === null
+              ? "–"
+              : `${Math.round(metrics.talkRatio * 100)}%`
+          }
+        />
+        <Stat
+          label="Longest turn"
+          value={
+            !longest
+              ? "–"
+              : longest.speechMs !== null
+              ? formatSeconds(longest.speechMs)
+              : `${longest.words} words`
+          }
+        />
+        <Stat
+          label="Avg. response"
+          value={
+            metrics.averageResponseDelayMs === null
+              ? "–"
+              : formatSeconds(metrics.averageResponseDelayMs)
+          }
+        />
+      </div>
+
+      {fillerBreakdown && (
+        <p className="text-sm text-slate-600">Fillers: {fillerBreakdown}</p>
+      )}
+
+      {metrics.turns.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-500 uppercase">
+              <th className="py-1">Turn</th>
+              <th>Words</th>
+              <th>Length</th>
+              <th>Pace</th>
+              <th>Fillers</th>
+              <th>Response</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.turns.map((t, i) => (
+              <tr key={t.turnIndex} className="border-t">
+                <td className="py-1">#{i + 1}</td>
+                <td>{t.words}</td>
+                <td>{t.speechMs === null ? "–" : formatSeconds(t.speechMs)}</td>
+                <td>
+                  {t.wordsPerMinute === null ? "–" : `${t.wordsPerMinute} wpm`}
+                </td>
+                <td>{t.fillers}</td>
+                <td>
+                  {t.responseDelayMs === null
+                    ? "–"
+                    : formatSeconds(t.responseDelayMs)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
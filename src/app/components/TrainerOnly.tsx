@@ -0,0 +1,21 @@
+"use client";
+
+import Link from "next/link";
+import type { ReactNode } from "react";
+import { useAccount } from "./AccountProvider";
+
+// For pages that change what every VA trains against.
+export default function TrainerOnly({ children }: { children: ReactNode }) {
+  const account = useAccount();
+  if (account.role === "trainer") return children;
+  return (
+    <main className="min-h-screen flex items-center justify-center p-6 bg-slate-50">
+      <div className="text-center text-sm text-slate-600 space-y-2">
+        <p>Only trainers can open this page.</p>
+        <Link href="/home" className="underline font-medium">
+          Back to home
+        </Link>
+      </div>
+    </main>
+  );
+}
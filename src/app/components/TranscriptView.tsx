@@ -0,0 +1,157 @@
+"use client";
+
+import type { ReactNode } from "react";
+import type { Annotation } from "../types/annotation";
+import type { Turn } from "../types/call";
+import type { Discrepancy } from "../types/factCheck";
+import { highlightSegments } from "../lib/annotations";
+
+type Props = {
+  turns: Turn[];
+  discrepancies?: Discrepancy[];
+  placeholder?: ReactNode;
+  className?: string;
+  // Shows an "Edit" action on one turn, e.g. the VA's last line.
+  editableIndex?: number;
+  onEdit?: (index: number) => void;
+  // Marks the line being heard during a replay.
+  highlightIndex?: number | null;
+  // Trainer feedback. Each handler adds its action to the lines or comments.
+  annotations?: Annotation[];
+  onAnnotate?: (index: number) => void;
+  onResolve?: (annotation: Annotation) => void;
+  onRemoveAnnotation?: (annotation: Annotation) => void;
+};
+
+export default function TranscriptView({
+  turns,
+  discrepancies = [],
+  placeholder,
+  className = "h-64",
+  editableIndex,
+  onEdit,
+  highlightIndex,
+  annotations = [],
+  onAnnotate,
+  onResolve,
+  onRemoveAnnotation,
+}: Props) {
+  return (
+    <div
+      className={`${className} w-full rounded-lg border bg-white p-3 text-sm overflow-y-auto space-y-2`}
+    >
+      {turns.length === 0 && placeholder && (
+        <span className="text-slate-400">{placeholder}</span>
+      )}
+
+      {turns.map((turn, i) => {
+        // Holds, transfers and callbacks sit between the lines.
+        if (turn.role === "event") {
+          return (
+            <p key={i} className="text-center text-xs italic text-slate-500">
+              &mdash; {turn.text} &mdash;
+            </p>
+          );
+        }
+        const flags = discrepancies.filter((d) => d.turnIndex === i);
+        const notes = annotations.filter((a) => a.turnIndex === i);
+        // Highlights show in the line; they get a row only to be deleted.
+        const rows = notes.filter(
+          (a) => a.comment || !a.span || onRemoveAnnotation
+        );
+        return (
+          <div
+            key={i}
+            className={
+              i === highlightIndex ? "-mx-1 rounded bg-amber-50 px-1" : ""
+            }
+          >
+            <p className="whitespace-pre-wrap">
+              <strong>{turn.role === "staff" ? "VA" : "Patient"}:</strong>{" "}
+              {highlightSegments(turn.text, notes).map((segment, j) =>
+                segment.annotation ? (
+                  <mark
+                    key={j}
+                    title={segment.annotation.label}
+                    className="rounded bg-amber-100 px-0.5"
+                  >
+                    {segment.text}
+                    <span className="ml-1 text-[10px] font-medium uppercase text-amber-800">
+                      {segment.annotation.label}
+                    </span>
+                  </mark>
+                ) : (
+                  <span key={j}>{segment.text}</span>
+                )
+              )}
+              {turn.interrupted && (
+                <span className="ml-2 text-xs text-amber-700">
+                  (cut off by VA)
+                </span>
+              )}
+              {onEdit && i === editableIndex && (
+                <button
+                  type="button"
+                  onClick={() => onEdit(i)}
+                  className="ml-2 text-xs underline text-slate-500"
+                >
+                  Edit
+                </button>
+              )}
+              {onAnnotate && (
+                <button
+                  type="button"
+                  onClick={() => onAnnotate(i)}
+                  className="ml-2 text-xs underline text-slate-500"
+                >
+                  Comment
+                </button>
+              )}
+            </p>
+            {rows.map((note) => (
+              <div
+                key={note.id}
+                className={`ml-4 mt-1 flex items-start gap-2 text-xs ${
+                  note.resolvedAt ? "text-slate-400" : "text-indigo-700"
+                }`}
+              >
+                <p className="flex-1">
+                  💬 {note.label && <strong>{note.label}</strong>}
+                  {note.label && note.comment && ": "}
+                  {note.comment}
+                  {note.resolvedAt && " (resolved)"}
+                </p>
+                {onResolve && note.comment && !note.resolvedAt && (
+                  <button
+                    type="button"
+                    onClick={() => onResolve(note)}
+                    className="underline"
+                  >
+                    Mark resolved
+                  </button>
+                )}
+                {onRemoveAnnotation && (
+                  <button
+                    type="button"
+                    onClick={() => onRemoveAnnotation(note)}
+                    className="underline text-red-600"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            ))}
+            {flags.map((d, j) => (
+              <p
+                key={j}
+                className="ml-4 mt-1 text-xs text-red-600"
+              >
+                ⚠ {d.message}
+              </p>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
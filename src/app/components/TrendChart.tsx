@@ -0,0 +1,115 @@
+"use client";
+
+import { describeDate } from "../lib/calendar";
+
+export type TrendSeries = {
+  label: string;
+  points: { week: string; value: number | null }[];
+};
+
+type Props = {
+  title: string;
+  series: TrendSeries[];
+  max: number; // top of the scale
+  format: (value: number) => string;
+};
+
+const COLORS = [
+  "#2563eb", // blue-600
+  "#059669", // emerald-600
+  "#d97706", // amber-600
+  "#7c3aed", // violet-600
+  "#dc2626", // red-600
+  "#0891b2", // cyan-600
+];
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PAD = 28;
+
+// Week-by-week lines, one per series. A line skips weeks it has no value for.
+export default function TrendChart({ title, series, max, format }: Props) {
+  const weeks = [
+    ...new Set(series.flatMap((s) => s.points.map((p) => p.week))),
+  ].sort();
+  if (weeks.length === 0) return null;
+
+  const x = (week: string) => {
+    const i = weeks.indexOf(week);
+    return weeks.length === 1
+      ? WIDTH / 2
+      : PAD + (i * (WIDTH - 2 * PAD)) / (weeks.length - 1);
+  };
+  const y = (value: number) => HEIGHT - PAD - (value * (HEIGHT - 2 * PAD)) / max;
+
+  return (
+    <section className="rounded-xl border bg-white p-4 shadow-sm space-y-3">
+      <div className="flex items-baseline justify-between gap-3">
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <div className="flex flex-wrap gap-3 text-xs">
+          {series.map((s, i) => (
+            <span key={s.label} style={{ color: COLORS[i % COLORS.length] }}>
+              &#9679; {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-40"
+        role="img"
+        aria-label={title}
+      >
+        {[0, max / 2, max].map((v) => (
+          <g key={v}>
+            <line
+              x1={PAD}
+              x2={WIDTH - PAD}
+              y1={y(v)}
+              y2={y(v)}
+              stroke="#e2e8f0"
+            />
+            <text x={2} y={y(v) + 4} fontSize={10} fill="#64748b">
+              {format(v)}
+            </text>
+          </g>
+        ))}
+        {[weeks[0], weeks[weeks.length - 1]].map((week, i) => (
+          <text
+            key={i}
+            x={x(week)}
+            y={HEIGHT - 6}
+            fontSize={10}
+            fill="#64748b"
+            textAnchor={weeks.length === 1 ? "middle" : i === 0 ? "start" : "end"}
+          >
+            Week of {describeDate(week)}
+          </text>
+        ))}
+
+        {series.map((s, i) => {
+          const color = COLORS[i % COLORS.length];
+          const points = s.points.filter(
+            (p): p is { week: string; value: number } => p.value !== null
+          );
+          return (
+            <g key={s.label}>
+              <polyline
+                fill="none"
+                stroke={color}
+                strokeWidth={2}
+                points={points.map((p) => `${x(p.week)},${y(p.value)}`).join(" ")}
+              />
+              {points.map((p) => (
+                <circle key={p.week} cx={x(p.week)} cy={y(p.value)} r={3.5} fill={color}>
+                  <title>{`${s.label} · week of ${describeDate(p.week)}: ${format(p.value)}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+    </section>
+  );
+}
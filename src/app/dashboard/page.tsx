@@ -0,0 +1,357 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { CallSession } from "../types/session";
+import type { CallStats, StatsGroup } from "../lib/dashboard";
+import { callHistory } from "../lib/callHistory";
+import {
+  callStats,
+  callsToCsv,
+  groupStats,
+  vaOf,
+  weeklyTrend,
+} from "../lib/dashboard";
+import { OUTCOME_LABELS } from "../lib/scenarios";
+import { SCORE_CATEGORIES } from "../lib/scoring";
+import TrainerOnly from "../components/TrainerOnly";
+import TrendChart from "../components/TrendChart";
+import type { TrendSeries } from "../components/TrendChart";
+
+export default function DashboardPage() {
+  return (
+    <TrainerOnly>
+      <Dashboard />
+    </TrainerOnly>
+  );
+}
+
+function downloadCsv(filename: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatScore(value: number | null) {
+  return value === null ? "–" : String(Math.round(value));
+}
+
+function formatCategory(value: number | null) {
+  return value === null ? "–" : value.toFixed(1);
+}
+
+function formatRate(value: number | null) {
+  return value === null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+// How each VA is doing, from every VA's saved calls.
+function Dashboard() {
+  const [sessions, setSessions] = useState<CallSession[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [vaFilter, setVaFilter] = useState("all");
+  const [modeFilter, setModeFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  useEffect(() => {
+    callHistory
+      .list()
+      .then(setSessions)
+      .catch((err) => console.error("Failed to load call history", err))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // Filter options come from the calls, like the history page.
+  const vaOptions = [...new Map(sessions.map((s) => [vaOf(s).id, vaOf(s).name]))];
+  const modeOptions = [
+    ...new Map(sessions.map((s) => [s.persona.id, s.persona.title])),
+  ];
+
+  const filtered = sessions.filter((s) => {
+    if (vaFilter !== "all" && vaOf(s).id !== vaFilter) return false;
+    if (modeFilter !== "all" && s.persona.id !== modeFilter) return false;
+    const started = new Date(s.startedAt);
+    if (fromDate && started < new Date(`${fromDate}T00:00:00`)) return false;
+    if (toDate && started > new Date(`${toDate}T23:59:59.999`)) return false;
+    return true;
+  });
+
+  const stats = callStats(filtered);
+  const byVa = groupStats(filtered, "va");
+  const byMode = groupStats(filtered, "mode");
+
+  // One line per VA, unless a single VA is picked.
+  const trendGroups =
+    vaFilter === "all"
+      ? byVa.map((group) => ({
+          label: group.label,
+          calls: filtered.filter((s) => vaOf(s).id === group.id),
+        }))
+      : [{ label: "All calls", calls: filtered }];
+  const trendSeries = (value: (stats: CallStats) => number | null) =>
+    trendGroups.map(
+      ({ label, calls }): TrendSeries => ({
+        label,
+        points: weeklyTrend(calls).map((p) => ({
+          week: p.week,
+          value: value(p.stats),
+        })),
+      })
+    );
+
+  function handleExport() {
+    downloadCsv(
+      `calls-${new Date().toISOString().slice(0, 10)}.csv`,
+      callsToCsv(filtered)
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-slate-50 flex justify-center p-6">
+      <div className="w-full max-w-5xl space-y-6">
+        <header className="flex items-center justify-between border-b pb-4">
+          <div>
+            <h1 className="text-2xl font-bold">Dashboard</h1>
+            <p className="text-sm text-slate-600">
+              Progress across every VA&apos;s saved calls.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={filtered.length === 0}
+              className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100 disabled:opacity-60"
+            >
+              Export CSV
+            </button>
+            <Link
+              href="/home"
+              className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+            >
+              ← Back to personas
+            </Link>
+          </div>
+        </header>
+
+        <section className="flex flex-wrap items-end gap-4 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="font-medium">VA</span>
+            <select
+              className="rounded border px-2 py-1 bg-white"
+              value={vaFilter}
+              onChange={(e) => setVaFilter(e.target.value)}
+            >
+              <option value="all">All VAs</option>
+              {vaOptions.map(([id, name]) => (
+                <option key={id} value={id}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="font-medium">Mode</span>
+            <select
+              className="rounded border px-2 py-1 bg-white"
+              value={modeFilter}
+              onChange={(e) => setModeFilter(e.target.value)}
+            >
+              <option value="all">All modes</option>
+              {modeOptions.map(([id, title]) => (
+                <option key={id} value={id}>
+                  {title}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="font-medium">From</span>
+            <input
+              type="date"
+              className="rounded border px-2 py-1 bg-white"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="font-medium">To</span>
+            <input
+              type="date"
+              className="rounded border px-2 py-1 bg-white"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </label>
+        </section>
+
+        {loaded && filtered.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            {sessions.length === 0
+              ? "No calls saved yet. Scored calls show up here once VAs finish them."
+              : "No calls match these filters."}
+          </p>
+        ) : (
+          <>
+            <section className="grid gap-4 sm:grid-cols-3">
+              {[
+                ["Calls", String(stats.calls)],
+                ["Average score", formatScore(stats.averageScore)],
+                ["Booking rate", formatRate(stats.bookingRate)],
+              ].map(([label, value]) => (
+                <div
+                  key={label}
+                  className="rounded-xl border bg-white p-4 shadow-sm"
+                >
+                  <p className="text-xs text-slate-500">{label}</p>
+                  <p className="text-3xl font-bold">{value}</p>
+                </div>
+              ))}
+            </section>
+
+            <section className="grid gap-4 md:grid-cols-2">
+              <div className="rounded-xl border bg-white p-4 shadow-sm space-y-2">
+                <h2 className="text-lg font-semibold">Score by category</h2>
+                {SCORE_CATEGORIES.map(({ id, label }) => {
+                  const value = stats.categoryAverages[id];
+                  return (
+                    <div key={id} className="text-sm">
+                      <div className="flex justify-between">
+                        <span>{label}</span>
+                        <span className="text-slate-600">
+                          {formatCategory(value)} / 10
+                        </span>
+                      </div>
+                      <div className="h-2 rounded bg-slate-100">
+                        <div
+                          className="h-2 rounded bg-blue-500"
+                          style={{ width: `${(value ?? 0) * 10}%` }}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="rounded-xl border bg-white p-4 shadow-sm space-y-2">
+                <h2 className="text-lg font-semibold">Most missed script items</h2>
+                {stats.missedItems.length === 0 ? (
+                  <p className="text-sm text-slate-500">
+                    Nothing from the call script was missed.
+                  </p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {stats.missedItems.slice(0, 6).map((item) => (
+                      <li key={item.label} className="flex justify-between">
+                        <span>{item.label}</span>
+                        <span className="text-slate-600">
+                          {item.count} of {stats.calls} calls
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </section>
+
+            <TrendChart
+              title="Average score by week"
+              series={trendSeries((s) => s.averageScore)}
+              max={100}
+              format={(v) => String(Math.round(v))}
+            />
+            <TrendChart
+              title="Booking rate by week"
+              series={trendSeries((s) => s.bookingRate)}
+              max={1}
+              format={(v) => `${Math.round(v * 100)}%`}
+            />
+
+            <StatsTable
+              title="By VA"
+              groups={byVa}
+              onSelect={(id) => setVaFilter(id)}
+            />
+            <StatsTable
+              title="By mode"
+              groups={byMode}
+              onSelect={(id) => setModeFilter(id)}
+            />
+
+            <section className="space-y-3">
+              <h2 className="text-sm font-semibold text-slate-700">Calls</h2>
+              {filtered.map((session) => (
+                <Link
+                  key={session.id}
+                  href={`/history/${session.id}`}
+                  className="flex items-center justify-between rounded-xl border bg-white p-3 shadow-sm hover:shadow-md transition-shadow text-sm"
+                >
+                  <span>
+                    <strong>{vaOf(session).name}</strong> &middot;{" "}
+                    {session.persona.title} &middot;{" "}
+                    {new Date(session.startedAt).toLocaleString()} &middot;{" "}
+                    {OUTCOME_LABELS[session.outcome.status]}
+                  </span>
+                  <span className="font-bold">
+                    {session.scorecard ? session.scorecard.overall : "–"}
+                  </span>
+                </Link>
+              ))}
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
+
+type StatsTableProps = {
+  title: string;
+  groups: StatsGroup[];
+  onSelect: (id: string) => void; // narrows the dashboard to one row
+};
+
+function StatsTable({ title, groups, onSelect }: StatsTableProps) {
+  return (
+    <section className="rounded-xl border bg-white p-4 shadow-sm space-y-2 overflow-x-auto">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      <table className="w-full text-sm">
+        <thead className="text-left text-xs text-slate-500">
+          <tr>
+            <th className="py-1" />
+            <th>Calls</th>
+            <th>Avg score</th>
+            <th>Booked</th>
+            {SCORE_CATEGORIES.map(({ id, label }) => (
+              <th key={id}>{label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((group) => (
+            <tr key={group.id} className="border-t">
+              <td className="py-2">
+                <button
+                  type="button"
+                  onClick={() => onSelect(group.id)}
+                  className="underline text-left"
+                >
+                  {group.label}
+                </button>
+              </td>
+              <td>{group.stats.calls}</td>
+              <td>{formatScore(group.stats.averageScore)}</td>
+              <td>{formatRate(group.stats.bookingRate)}</td>
+              {SCORE_CATEGORIES.map(({ id }) => (
+                <td key={id}>{formatCategory(group.stats.categoryAverages[id])}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import type { Annotation } from "../../types/annotation";
+import type { MixedRecording } from "../../types/recording";
+import type { CallSession } from "../../types/session";
+import type { AnnotationInput } from "../../lib/annotations";
+import { isOpenComment } from "../../lib/annotations";
+import { callHistory } from "../../lib/callHistory";
+import { callRecordings } from "../../lib/callRecordings";
+import { missedScriptItems } from "../../lib/callScript";
+import { parseOfficeHours } from "../../lib/officeHours";
+import { getScenarioGoal } from "../../lib/scenarios";
+import { useAccount } from "../../components/AccountProvider";
+import AnnotationForm from "../../components/AnnotationForm";
+import AppointmentCalendar from "../../components/AppointmentCalendar";
+import BookingCheckView from "../../components/BookingCheckView";
+import CallReplay from "../../components/CallReplay";
+import MissedScriptItems from "../../components/MissedScriptItems";
+import MoodTimeline from "../../components/MoodTimeline";
+import OutcomeBanner from "../../components/OutcomeBanner";
+import ScorecardView from "../../components/ScorecardView";
+import SpeechMetricsView from "../../components/SpeechMetricsView";
+import TranscriptView from "../../components/TranscriptView";
+
+export default function CallDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const account = useAccount();
+  const isTrainer = account.role === "trainer";
+  const [session, setSession] = useState<CallSession | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [recording, setRecording] = useState<MixedRecording | null>(null);
+  const [replayTurn, setReplayTurn] = useState<number | null>(null);
+  // The line a trainer is commenting on.
+  const [annotating, setAnnotating] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    callHistory
+      .get(id)
+      .then((call) => {
+        setSession(call);
+        if (!call) return;
+        callRecordings
+          .get(call)
+          .then(setRecording)
+          .catch((err) => console.error("Failed to load call recording", err));
+      })
+      .catch((err) => console.error("Failed to load call", err))
+      .finally(() => setLoaded(true));
+  }, [id]);
+
+  // Feedback is saved on the server, so it can fail; calls kept only in
+  // this browser can't take comments at all.
+  async function change(run: () => Promise<CallSession>) {
+    setError(null);
+    try {
+      setSession(await run());
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  function handleAddAnnotation(input: AnnotationInput) {
+    setAnnotating(null);
+    void change(() => callHistory.annotate(id, input));
+  }
+
+  function handleResolve(annotation: Annotation) {
+    void change(() => callHistory.resolveAnnotation(id, annotation.id));
+  }
+
+  function handleRemoveAnnotation(annotation: Annotation) {
+    if (!confirm("Delete this comment?")) return;
+    void change(() => callHistory.removeAnnotation(id, annotation.id));
+  }
+
+  const openCount = session?.annotations?.filter(isOpenComment).length ?? 0;
+
+  return (
+    <main className="min-h-screen bg-slate-50 flex justify-center p-6">
+      <div className="w-full max-w-4xl space-y-6">
+        <header className="flex items-center justify-between border-b pb-4">
+          <div>
+            <h1 className="text-2xl font-bold">
+              {session ? `${session.persona.title} Call` : "Call"}
+            </h1>
+            {session && (
+              <p className="text-sm text-slate-600">
+                {session.persona.name} &middot; {session.clinic.clinicName}{" "}
+                &middot;{" "}
+                {new Date(session.startedAt).toLocaleString()}
+                {session.trainee && ` · VA: ${session.trainee.name}`}
+              </p>
+            )}
+          </div>
+          <Link
+            href="/history"
+            className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+          >
+            ← Back to history
+          </Link>
+        </header>
+
+        {loaded && !session && (
+          <p className="text-sm text-slate-500">This call could not be found.</p>
+        )}
+
+        {session && (
+          <>
+            <OutcomeBanner
+              outcome={session.outcome}
+              goal={getScenarioGoal(session.persona.goalId)}
+            />
+
+            {session.scorecard ? (
+              <ScorecardView scorecard={session.scorecard} />
+            ) : (
+              <p className="text-sm text-slate-500">
+                This call was saved without a score.
+              </p>
+            )}
+
+            {(session.bookingCheck || session.calendar) && (
+              <section className="space-y-3">
+                <h2 className="text-sm font-semibold text-slate-700">
+                  Appointment Book
+                </h2>
+                {session.bookingCheck && (
+                  <BookingCheckView check={session.bookingCheck} />
+                )}
+                {session.calendar && (
+                  <div className="rounded-lg border bg-white p-3">
+                    <AppointmentCalendar
+                      book={session.calendar}
+                      schedule={parseOfficeHours(session.clinic.officeHours)}
+                    />
+                  </div>
+                )}
+              </section>
+            )}
+
+            <MoodTimeline turns={session.turns} />
+
+            {session.speechMetrics && (
+              <SpeechMetricsView metrics={session.speechMetrics} />
+            )}
+
+            {session.checklist && session.checklist.length > 0 && (
+              <section className="space-y-3">
+                <h2 className="text-sm font-semibold text-slate-700">
+                  Call Script
+                </h2>
+                <MissedScriptItems
+                  missed={missedScriptItems(session.checklist)}
+                  total={session.checklist.length}
+                  clinic={session.clinic}
+                />
+              </section>
+            )}
+
+            {recording ? (
+              <CallReplay recording={recording} onTurnChange={setReplayTurn} />
+            ) : (
+              <p className="text-sm text-slate-500">
+                No recording was kept for this call. Only spoken calls can be
+                replayed.
+              </p>
+            )}
+
+            <section className="space-y-3">
+              <div className="flex items-baseline justify-between">
+                <h2 className="text-sm font-semibold text-slate-700">
+                  Call Transcript
+                </h2>
+                {openCount > 0 && (
+                  <span className="text-xs text-indigo-700">
+                    {openCount} open comment{openCount === 1 ? "" : "s"}
+                  </span>
+                )}
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              {annotating !== null && (
+                <AnnotationForm
+                  key={annotating}
+                  turns={session.turns}
+                  turnIndex={annotating}
+                  onAdd={handleAddAnnotation}
+                  onCancel={() => setAnnotating(null)}
+                />
+              )}
+              <TranscriptView
+                turns={session.turns}
+                discrepancies={session.discrepancies}
+                className="max-h-[32rem]"
+                highlightIndex={replayTurn}
+                annotations={session.annotations}
+                // Trainers write feedback; the VA resolves it.
+                onAnnotate={isTrainer ? setAnnotating : undefined}
+                onResolve={isTrainer ? undefined : handleResolve}
+                onRemoveAnnotation={
+                  isTrainer ? handleRemoveAnnotation : undefined
+                }
+              />
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { CallSession } from "../types/session";
+import { isOpenComment } from "../lib/annotations";
+import { callHistory } from "../lib/callHistory";
+import { OUTCOME_LABELS } from "../lib/scenarios";
+
+function formatDuration(session: CallSession) {
+  const ms =
+    new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime();
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export default function HistoryPage() {
+  const [sessions, setSessions] = useState<CallSession[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [personaFilter, setPersonaFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  useEffect(() => {
+    callHistory
+      .list()
+      .then(setSessions)
+      .catch((err) => console.error("Failed to load call history", err))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // Filter options come from the calls themselves, so personas that have
+  // since been deleted can still be filtered on.
+  const personaOptions = [
+    ...new Map(sessions.map((s) => [s.persona.id, s.persona.title])),
+  ];
+
+  // Dates come from <input type="date"> as YYYY-MM-DD in local time.
+  const filtered = sessions.filter((s) => {
+    if (personaFilter !== "all" && s.persona.id !== personaFilter) return false;
+    const started = new Date(s.startedAt);
+    if (fromDate && started < new Date(`${fromDate}T00:00:00`)) return false;
+    if (toDate && started > new Date(`${toDate}T23:59:59.999`)) return false;
+    return true;
+  });
+
+  return (
+    <main className="min-h-screen bg-slate-50 flex justify-center p-6">
+      <div className="w-full max-w-4xl space-y-6">
+        <header className="flex items-center justify-between border-b pb-4">
+          <h1 className="text-2xl font-bold">Call History</h1>
+          <Link
+            href="/home"
+            className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+          >
+            ← Back to personas
+          </Link>
+        </header>
+
+        <section className="flex flex-wrap items-end gap-4 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="font-medium">Persona</span>
+            <select
+              className="rounded border px-2 py-1 bg-white"
+              value={personaFilter}
+              onChange={(e) => setPersonaFilter(e.target.value)}
+            >
+              <option value="all">All personas</option>
+              {personaOptions.map(([id, title]) => (
+                <option key={id} value={id}>
+                  {title}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="font-medium">From</span>
+            <input
+              type="date"
+              className="rounded border px-2 py-1 bg-white"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="font-medium">To</span>
+            <input
+              type="date"
+              className="rounded border px-2 py-1 bg-white"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </label>
+        </section>
+
+        <section className="space-y-3">
+          {loaded && filtered.length === 0 && (
+            <p className="text-sm text-slate-500">
+              {sessions.length === 0
+                ? "No calls saved yet. Finish a training call to see it here."
+                : "No calls match these filters."}
+            </p>
+          )}
+
+          {filtered.map((session) => (
+            <Link
+              key={session.id}
+              href={`/history/${session.id}`}
+              className="flex items-center justify-between rounded-xl border bg-white p-4 shadow-sm hover:shadow-md transition-shadow"
+            >
+              <div>
+                <h2 className="font-semibold">
+                  {session.persona.title} &ndash;{" "}
+                  {session.clinic.clinicName}
+                </h2>
+                <p className="text-xs text-slate-500">
+                  {new Date(session.startedAt).toLocaleString()} &middot;{" "}
+                  {formatDuration(session)} &middot; {session.turns.length}{" "}
+                  turns
+                  {" "}&middot; {OUTCOME_LABELS[session.outcome.status]}
+                  {session.inputMode === "text" && " · Typed"}
+                  {session.coached && " · Coached"}
+                  {session.trainee && ` · ${session.trainee.name}`}
+                </p>
+                {session.annotations?.some(isOpenComment) && (
+                  <p className="text-xs text-indigo-700">
+                    Trainer feedback to review
+                  </p>
+                )}
+              </div>
+              <span className="text-xl font-bold">
+                {session.scorecard ? session.scorecard.overall : "–"}
+              </span>
+            </Link>
+          ))}
+        </section>
+      </div>
+    </main>
+  );
+}
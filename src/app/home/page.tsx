@@ -2,93 +2,287 @@
 
 import Link from "next/link";
 import { useEffect, useState } from "react";
-import type { ClinicConfig } from "../types/config";
-
-type ModeId = "easy" | "challenging" | "skeptical" | "creepy";
-
-const MODES: { id: ModeId; label: string; description: string }[] = [
-  {
-    id: "easy",
-    label: "Easy",
-    description: "Friendly, curious caller who wants information and is easy to book.",
-  },
-  {
-    id: "challenging",
-    label: "Challenging",
-    description:
-      "Busy, distracted caller with objections about time, money, or commitment.",
-  },
-  {
-    id: "skeptical",
-    label: "Skeptical",
-    description:
-      "Questioning your methods, wants proof and reassurance before scheduling.",
-  },
-  {
-    id: "creepy",
-    label: "Creepy",
-    description:
-      "Inappropriate, boundary-pushing caller. Good for teaching VAs to set boundaries.",
-  },
-];
+import type { Assignment } from "../types/account";
+import type { ClinicProfile } from "../types/config";
+import type { Persona } from "../types/persona";
+import type { CallSession } from "../types/session";
+import { isOverdue, listAssignments } from "../lib/accounts";
+import { openComments } from "../lib/annotations";
+import { describeDate } from "../lib/calendar";
+import { callHistory } from "../lib/callHistory";
+import { clinicProfiles } from "../lib/clinicProfiles";
+import { personaStore } from "../lib/personas";
+import { getScenarioGoal } from "../lib/scenarios";
+import { useAccount } from "../components/AccountProvider";
+import ClinicSwitcher from "../components/ClinicSwitcher";
 
 export default function HomePage() {
-  const [clinic, setClinic] = useState<ClinicConfig | null>(null);
+  const account = useAccount();
+  const isTrainer = account.role === "trainer";
+  const [profile, setProfile] = useState<ClinicProfile | null>(null);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [calls, setCalls] = useState<CallSession[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
 
   useEffect(() => {
-    if (typeof window === "undefined") return;
-    const stored = window.localStorage.getItem("clinicConfig");
-    if (stored) {
-      try {
-        setClinic(JSON.parse(stored));
-      } catch (err) {
-        console.error("Failed to parse clinicConfig", err);
-      }
-    }
+    clinicProfiles
+      .getActive()
+      .then(setProfile)
+      .catch((err) => console.error("Failed to load clinic profile", err));
   }, []);
 
+  const clinic = profile?.config ?? null;
+
+  useEffect(() => {
+    personaStore
+      .list()
+      .then(setPersonas)
+      .catch((err) => console.error("Failed to load personas", err));
+  }, []);
+
+  useEffect(() => {
+    callHistory
+      .list()
+      .then(setCalls)
+      .catch((err) => console.error("Failed to load call history", err));
+  }, []);
+
+  useEffect(() => {
+    if (isTrainer) return;
+    listAssignments()
+      .then(setAssignments)
+      .catch((err) => console.error("Failed to load assignments", err));
+  }, [isTrainer]);
+
+  // Feedback on this VA's own calls, and on calls from before accounts.
+  const todo = isTrainer
+    ? []
+    : openComments(
+        calls.filter((c) => !c.trainee || c.trainee.id === account.id)
+      );
+  // Still to do first, then the most recently finished.
+  const myAssignments = [
+    ...assignments.filter((a) => !a.completedAt),
+    ...assignments
+      .filter((a) => a.completedAt)
+      .sort((a, b) => b.completedAt!.localeCompare(a.completedAt!))
+      .slice(0, 3),
+  ];
+
+  async function handleDelete(persona: Persona) {
+    if (!confirm(`Delete the "${persona.title}" persona?`)) return;
+    await personaStore.remove(persona.id);
+    setPersonas(await personaStore.list());
+  }
+
   return (
     <main className="min-h-screen bg-slate-50 flex justify-center p-6">
       <div className="w-full max-w-4xl">
         <header className="mb-8">
           <h1 className="text-3xl font-bold mb-2">VA Call Trainer</h1>
           <p className="text-slate-600">
-            Choose a call style below and practice handling real-world scenarios.
+            Choose a caller below and practice handling real-world scenarios.
           </p>
+          <div className="mt-2 flex gap-4 text-sm">
+            <Link href="/history" className="underline text-slate-700">
+              View call history
+            </Link>
+            {isTrainer && (
+              <>
+                <Link href="/dashboard" className="underline text-slate-700">
+                  Dashboard
+                </Link>
+                <Link href="/team" className="underline text-slate-700">
+                  Team &amp; assignments
+                </Link>
+              </>
+            )}
+          </div>
 
-          <div className="mt-4 inline-flex flex-col gap-1 text-sm text-slate-700">
-            <span>
-              <strong>Clinic:</strong> {clinic?.clinicName ?? "Not set"}
-            </span>
+          <div className="mt-4 flex flex-col gap-1 text-sm text-slate-700">
+            <ClinicSwitcher active={profile} onChange={setProfile} />
             <span>
               <strong>Doctor:</strong> {clinic?.doctorName ?? "Not set"}
             </span>
             {!clinic && (
               <span className="text-amber-700">
                 Clinic not configured.{" "}
-                <Link href="/setup" className="underline font-medium">
-                  Go to Setup
-                </Link>
+                {isTrainer ? (
+                  <Link href="/setup" className="underline font-medium">
+                    Go to Setup
+                  </Link>
+                ) : (
+                  "Ask a trainer to set it up."
+                )}
               </span>
             )}
           </div>
         </header>
 
+        {!isTrainer && (
+          <section className="mb-8 rounded-xl border bg-white p-4 shadow-sm">
+            <h2 className="text-lg font-semibold mb-2">My assignments</h2>
+            {myAssignments.length === 0 ? (
+              <p className="text-sm text-slate-500">
+                Nothing assigned right now. Practice with any caller below.
+              </p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {myAssignments.map((assignment) => (
+                  <li
+                    key={assignment.id}
+                    className="flex items-center justify-between gap-3 rounded border px-3 py-2"
+                  >
+                    <div>
+                      <p className="font-medium">
+                        {assignment.persona.title}{" "}
+                        <span className="font-normal text-slate-500">
+                          &middot; {getScenarioGoal(assignment.persona.goalId).label}
+                        </span>
+                      </p>
+                      <p
+                        className={`text-xs ${
+                          isOverdue(assignment)
+                            ? "text-red-600"
+                            : "text-slate-500"
+                        }`}
+                      >
+                        {assignment.completedAt
+                          ? `Done ${new Date(assignment.completedAt).toLocaleDateString()}`
+                          : `Due ${describeDate(assignment.dueDate)}${
+                              isOverdue(assignment) ? " (overdue)" : ""
+                            }`}
+                      </p>
+                      {assignment.note && (
+                        <p className="text-xs text-slate-700">
+                          {assignment.note}
+                        </p>
+                      )}
+                    </div>
+                    {assignment.completedAt && assignment.callId ? (
+                      <Link
+                        href={`/history/${assignment.callId}`}
+                        className="text-xs underline text-slate-700"
+                      >
+                        View call
+                      </Link>
+                    ) : (
+                      <Link
+                        href={`/train?persona=${encodeURIComponent(
+                          assignment.persona.id
+                        )}&assignment=${encodeURIComponent(assignment.id)}`}
+                        className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+                      >
+                        Start call
+                      </Link>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+
+        {todo.length > 0 && (
+          <section className="mb-8 rounded-xl border bg-white p-4 shadow-sm">
+            <h2 className="text-lg font-semibold mb-2">Trainer feedback</h2>
+            <p className="text-xs text-slate-500 mb-3">
+              Open the call to read the comment in context and mark it
+              resolved.
+            </p>
+            <ul className="space-y-2 text-sm">
+              {todo.map(({ session, annotation }) => (
+                <li key={annotation.id}>
+                  <Link
+                    href={`/history/${session.id}`}
+                    className="flex flex-col rounded border px-3 py-2 hover:bg-slate-50"
+                  >
+                    <span>
+                      {annotation.label && (
+                        <strong>{annotation.label}: </strong>
+                      )}
+                      {annotation.comment}
+                    </span>
+                    <span className="text-xs text-slate-500">
+                      {session.persona.title} &middot;{" "}
+                      {new Date(session.startedAt).toLocaleDateString()}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Callers</h2>
+          <Link
+            href="/personas"
+            className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+          >
+            + New persona
+          </Link>
+        </div>
+
         <section className="grid gap-4 md:grid-cols-2">
-          {MODES.map((mode) => (
-            <Link
-              key={mode.id}
-              href={`/train?mode=${mode.id}`}
-              className="block rounded-xl border bg-white p-4 shadow-sm hover:shadow-md transition-shadow"
+          {personas.map((persona) => (
+            <div
+              key={persona.id}
+              className="flex flex-col rounded-xl border bg-white p-4 shadow-sm hover:shadow-md transition-shadow"
             >
-              <h2 className="text-lg font-semibold mb-1">
-                {mode.label} Mode
-              </h2>
-              <p className="text-sm text-slate-600">{mode.description}</p>
-              <p className="mt-3 text-xs text-slate-500">
-                Click to start a training call in this style.
-              </p>
-            </Link>
+              <Link href={`/train?persona=${encodeURIComponent(persona.id)}`}>
+                <h3 className="text-lg font-semibold mb-1">
+                  {persona.title}
+                  {!persona.builtIn && (
+                    <span className="ml-2 text-xs font-normal text-slate-500">
+                      Custom
+                    </span>
+                  )}
+                </h3>
+                <p className="text-xs text-slate-500 mb-1">
+                  {persona.name}, {persona.age} &middot;{" "}
+                  {persona.chiefComplaint}
+                </p>
+                <p className="text-sm text-slate-600">{persona.description}</p>
+                <p className="mt-2 text-xs font-medium text-slate-700">
+                  Goal: {getScenarioGoal(persona.goalId).label}
+                  {getScenarioGoal(persona.goalId).direction === "outbound" && (
+                    <span className="ml-2 rounded bg-slate-100 px-1 font-normal">
+                      Outbound
+                    </span>
+                  )}
+                </p>
+                <p className="mt-3 text-xs text-slate-500">
+                  Click to start a training call with this caller.
+                </p>
+              </Link>
+
+              <div className="mt-3 flex gap-3 text-xs">
+                <Link
+                  href={`/personas?from=${encodeURIComponent(persona.id)}`}
+                  className="underline text-slate-700"
+                >
+                  Clone
+                </Link>
+                {!persona.builtIn && (
+                  <>
+                    <Link
+                      href={`/personas?id=${encodeURIComponent(persona.id)}`}
+                      className="underline text-slate-700"
+                    >
+                      Edit
+                    </Link>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(persona)}
+                      className="underline text-red-600"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
           ))}
         </section>
       </div>
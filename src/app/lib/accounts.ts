@@ -0,0 +1,88 @@
+import type { Account, AccountRole, Assignment } from "../types/account";
+import type { Persona } from "../types/persona";
+import { apiRequest } from "./apiErrors";
+import { toDateKey } from "./calendar";
+
+// The pages' side of the account and assignment routes. Failed requests
+// throw with a message that can be shown as is.
+
+export type AuthState = { account: Account | null; firstRun: boolean };
+
+export function getAuthState() {
+  return apiRequest<AuthState>("/api/auth");
+}
+
+export async function signIn(username: string, password: string) {
+  const data = await apiRequest<{ account: Account }>("/api/auth", "POST", {
+    username,
+    password,
+  });
+  return data.account;
+}
+
+export async function signOut() {
+  await apiRequest("/api/auth", "DELETE");
+}
+
+export type NewAccountInput = {
+  username: string;
+  displayName: string;
+  password: string;
+  role: AccountRole;
+};
+
+export async function createAccount(input: NewAccountInput) {
+  const data = await apiRequest<{ account: Account }>(
+    "/api/accounts",
+    "POST",
+    input
+  );
+  return data.account;
+}
+
+export async function listAccounts() {
+  const data = await apiRequest<{ accounts: Account[] }>("/api/accounts");
+  return data.accounts;
+}
+
+export async function listAssignments() {
+  const data = await apiRequest<{ assignments: Assignment[] }>(
+    "/api/assignments"
+  );
+  return data.assignments;
+}
+
+export async function getAssignment(id: string) {
+  const data = await apiRequest<{ assignment: Assignment }>(
+    `/api/assignments/${encodeURIComponent(id)}`
+  );
+  return data.assignment;
+}
+
+export async function createAssignment(input: {
+  vaId: string;
+  persona: Persona;
+  dueDate: string;
+  note?: string;
+  coaching?: boolean;
+}) {
+  const data = await apiRequest<{ assignment: Assignment }>(
+    "/api/assignments",
+    "POST",
+    input
+  );
+  return data.assignment;
+}
+
+export async function removeAssignment(id: string) {
+  await apiRequest(`/api/assignments/${encodeURIComponent(id)}`, "DELETE");
+}
+
+export function isOverdue(assignment: Assignment, today = new Date()) {
+  return !assignment.completedAt && assignment.dueDate < toDateKey(today);
+}
+
+export const ROLE_LABELS: Record<AccountRole, string> = {
+  trainer: "Trainer",
+  va: "VA",
+};
@@ -0,0 +1,54 @@
+import type { AIProviders, ProviderId } from "./types";
+import {
+  createOpenAIChatModel,
+  createOpenAISpeechToText,
+  createOpenAITextToSpeech,
+} from "./openai";
+import {
+  createMockChatModel,
+  createMockSpeechToText,
+  createMockTextToSpeech,
+} from "./mock";
+
+export type * from "./types";
+
+const PROVIDER_IDS: ProviderId[] = ["openai", "mock"];
+
+// AI_PROVIDER picks the provider for every job; STT_PROVIDER, CHAT_PROVIDER
+// and TTS_PROVIDER override it per job. With nothing set we use OpenAI when a
+// key is present and fall back to the offline mock otherwise.
+function resolveProvider(override: string | undefined): ProviderId {
+  const value = override || process.env.AI_PROVIDER;
+  if (value) {
+    if (!PROVIDER_IDS.includes(value as ProviderId)) {
+      throw new Error(
+        `Unknown AI provider "${value}". Expected one of: ${PROVIDER_IDS.join(", ")}.`
+      );
+    }
+    return value as ProviderId;
+  }
+  return process.env.OPENAI_API_KEY ? "openai" : "mock";
+}
+
+// Which provider transcribes, e.g. so uploads only the mock accepts are
+// let through when it is the one in use.
+export function getSpeechToTextProvider(): ProviderId {
+  return resolveProvider(process.env.STT_PROVIDER);
+}
+
+export function getAIProviders(): AIProviders {
+  return {
+    stt:
+      getSpeechToTextProvider() === "mock"
+        ? createMockSpeechToText()
+        : createOpenAISpeechToText(),
+    chat:
+      resolveProvider(process.env.CHAT_PROVIDER) === "mock"
+        ? createMockChatModel()
+        : createOpenAIChatModel(),
+    tts:
+      resolveProvider(process.env.TTS_PROVIDER) === "mock"
+        ? createMockTextToSpeech()
+        : createOpenAITextToSpeech(),
+  };
+}
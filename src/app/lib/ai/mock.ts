@@ -0,0 +1,427 @@
+import type {
+  ChatMessage,
+  ChatModel,
+  SpeechToText,
+  TextToSpeech,
+} from "./types";
+import type { PatientMood } from "../../types/scenario";
+import { LONG_HOLD_MS } from "../callActions";
+import { HANG_UP_FRUSTRATION, HANG_UP_TRUST } from "../mood";
+import { SCORE_CATEGORIES } from "../scoring";
+
+// Offline provider for demos and tests: no network, no API key, and the
+// same input always produces the same output.
+
+const MOCK_STAFF_LINES = [
+  "Thank you for calling, this is Sam. How can I help you today?",
+  "I'm sorry to hear that. How long has the pain been going on?",
+  "Our new patient visit includes a consultation, exam and any X-rays the doctor needs.",
+  "I have an opening tomorrow at 10am. Would that work for you?",
+  "Perfect, you're all set. Can I get the best phone number to reach you?",
+];
+
+const MOCK_PATIENT_LINES = [
+  "Hi, I've had lower back pain for a few weeks and wanted to see if you can help.",
+  "About three weeks now. It's worse when I sit at my desk.",
+  "Okay. How much does the first visit cost?",
+  "That sounds reasonable. Do you have anything this week?",
+];
+
+const MOCK_BOOKED_LINE = "Tomorrow at 10 works. Let's book it, thanks!";
+const MOCK_BOOKED_SLOT = "Tomorrow at 10am";
+// A day and time the VA offered, e.g. "Thursday at 3:30pm".
+const OFFERED_SLOT_RE =
+  /\b(today|tomorrow|monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b[^.?!\d]*?\b\d{1,2}(?::\d{2})?\s*(?:am|pm)?/i;
+const MOCK_HANG_UP_LINE = "Wow, okay. Never mind, I'll call somewhere else.";
+const MOCK_PICK_UP_LINE = "Hello? Sorry, who's calling?";
+const MOCK_COLD_LINE = "Excuse me? There's no need to talk to me like that.";
+const RUDE_RE = /\b(shut up|whatever|calm down|not my problem)\b/i;
+
+// Reactions to the call-event notes the server adds.
+const MOCK_LONG_HOLD_LINE = "Finally. I was on hold for ages, you know.";
+const MOCK_TRANSFER_LINE = "Okay, thanks. I'll hold for the doctor.";
+const MOCK_CALLBACK_LINE =
+  "Can't I just talk to the doctor now? I'd rather not wait for a call.";
+const HOLD_NOTE_RE = /on hold for (\d+) seconds/;
+const EVENT_REACTIONS: {
+  applies: (note: string) => boolean;
+  reply: string;
+  change: Partial<PatientMood>;
+}[] = [
+  {
+    applies: (note) => +(note.match(HOLD_NOTE_RE)?.[1] ?? 0) * 1000 >= LONG_HOLD_MS,
+    reply: MOCK_LONG_HOLD_LINE,
+    change: { trust: -1, frustration: 3 },
+  },
+  {
+    applies: (note) => note.includes("transferring you"),
+    reply: MOCK_TRANSFER_LINE,
+    change: {},
+  },
+  {
+    applies: (note) => note.includes("call you back"),
+    reply: MOCK_CALLBACK_LINE,
+    change: { frustration: 1 },
+  },
+];
+
+const MOCK_STARTING_MOOD: PatientMood = { trust: 4, frustration: 2, interest: 5 };
+const MOOD_NOTE_RE = /trust (\d+)\/10, frustration (\d+)\/10, interest (\d+)\/10/;
+
+// How the mock patient's mood moves with the VA's words.
+const MOOD_RULES: { pattern: RegExp; change: Partial<PatientMood> }[] = [
+  { pattern: /sorry to hear|understand|i hear you/i, change: { trust: 2, frustration: -1 } },
+  { pattern: /\$\d+|insurance|include|covered/i, change: { trust: 1 } },
+  { pattern: /opening|appointment|book|schedule|work for you/i, change: { interest: 2 } },
+  { pattern: RUDE_RE, change: { trust: -4, frustration: 6, interest: -4 } },
+];
+
+const PATIENT_KEYWORD_REPLIES: { pattern: RegExp; reply: string }[] = [
+  { pattern: /\b(cost|price|\$\d+)/i, reply: "Is that covered by insurance, or is it out of pocket?" },
+  { pattern: /\binsurance\b/i, reply: "Got it. And what happens at the first visit?" },
+];
+
+const CATEGORY_KEYWORDS: Record<string, RegExp> = {
+  greeting: /thank you for calling|this is|how can i help/i,
+  rapport: /sorry to hear|understand|i hear you/i,
+  objectionHandling: /insurance|include|covered|worth/i,
+  bookingAttempt: /opening|appointment|book|schedule|work for you/i,
+};
+
+function hash(bytes: Uint8Array) {
+  let h = 0;
+  for (const b of bytes) h = (h * 31 + b) >>> 0;
+  return h;
+}
+
+function staffLines(transcript: string) {
+  return transcript
+    .split("\n")
+    .filter((line) => line.startsWith("VA:"))
+    .map((line) => line.slice(3).trim());
+}
+
+function mockScore(messages: ChatMessage[]) {
+  const prompt = messages.find((m) => m.role === "system")?.content ?? "";
+  const transcript = messages.find((m) => m.role === "user")?.content ?? "";
+  const lines = staffLines(transcript);
+  const factsClean = prompt.includes("- None found");
+
+  const categories = Object.fromEntries(
+    SCORE_CATEGORIES.map(({ id, label }) => {
+      // Accuracy follows the rule-based fact check included in the prompt.
+      if (id === "accuracy") {
+        return [
+          id,
+          {
+            score: factsClean ? 9 : 4,
+            evidence: [],
+            tips: factsClean
+              ? ["Every clinic fact checked out. Keep quoting from the setup."]
+              : ["Double-check prices, hours and services before quoting them."],
+          },
+        ];
+      }
+
+      const evidence = lines.filter((l) => CATEGORY_KEYWORDS[id].test(l));
+      return [
+        id,
+        {
+          score: evidence.length > 0 ? 7 : 3,
+          evidence: evidence.slice(0, 2),
+          tips: [
+            evidence.length > 0
+              ? `Keep doing this for ${label.toLowerCase()}, and be more specific.`
+              : `Work on ${label.toLowerCase()}: it never came up in this call.`,
+          ],
+        },
+      ];
+    })
+  );
+
+  // A criterion counts as met when a VA line shares a longer word with it.
+  const criteria = (
+    prompt.split("Success criteria for this type of call:\n")[1] ?? ""
+  )
+    .split("\n\n")[0]
+    .split("\n")
+    .filter((line) => line.startsWith("- "))
+    .map((line) => {
+      const criterion = line.slice(2);
+      const stems = (criterion.toLowerCase().match(/[a-z]{6,}/g) ?? []).map(
+        (w) => w.slice(0, 5)
+      );
+      return {
+        criterion,
+        met: lines.some((l) => stems.some((s) => l.toLowerCase().includes(s))),
+      };
+    });
+
+  // Holds are fine while short; callbacks need a time with a number in it.
+  const actions = transcript
+    .split("\n")
+    .filter((line) => line.startsWith("[Call event: "))
+    .map((line) => {
+      const event = line.slice("[Call event: ".length, -1);
+      const hold = event.match(/on hold \((\d+):(\d\d)\)/);
+      const appropriate = hold
+        ? (+hold[1] * 60 + +hold[2]) * 1000 < LONG_HOLD_MS
+        : !event.startsWith("Offered a callback") || /\d/.test(event);
+      return {
+        event,
+        appropriate,
+        comment: appropriate
+          ? "Reasonable here."
+          : "The caller was left waiting without a clear plan.",
+      };
+    });
+
+  return JSON.stringify({
+    summary: "Mock scorecard generated offline from keywords in the transcript.",
+    categories,
+    criteria,
+    actions,
+  });
+}
+
+const COACHING_RULES: {
+  pattern: RegExp;
+  intent: string;
+  objection: boolean;
+  suggestions: string[];
+}[] = [
+  {
+    pattern: /\b(cost|price|expensive|afford|how much)\b/i,
+    intent: "Price objection",
+    objection: true,
+    suggestions: [
+      "Quote the first visit price from the clinic setup and explain what it includes.",
+      "Ask what they've already tried and what the pain is costing them day to day.",
+    ],
+  },
+  {
+    pattern: /\b(wife|husband|spouse|partner|think about it)\b/i,
+    intent: "Needs to check with someone",
+    objection: true,
+    suggestions: [
+      "Offer to hold a time now that they can move if it doesn't work at home.",
+      "Ask what their partner would want to know, and answer that now.",
+    ],
+  },
+  {
+    pattern: /\b(busy|time|schedule|work)\b/i,
+    intent: "Time objection",
+    objection: true,
+    suggestions: [
+      "Offer your earliest and latest slots so it fits around their day.",
+      "Tell them how long the first visit takes.",
+    ],
+  },
+  {
+    pattern: /\b(insurance|covered)\b/i,
+    intent: "Insurance question",
+    objection: false,
+    suggestions: [
+      "Say which plans the clinic accepts, exactly as listed in the setup.",
+      "Offer to check their benefits before the visit.",
+    ],
+  },
+];
+
+// Keyword coach: reacts to the last patient line in the transcript.
+function mockCoach(messages: ChatMessage[]) {
+  const transcript = messages.find((m) => m.role === "user")?.content ?? "";
+  const lastPatient =
+    transcript
+      .split("\n")
+      .filter((line) => line.startsWith("Patient:"))
+      .at(-1) ?? "";
+  const rule = COACHING_RULES.find(({ pattern }) => pattern.test(lastPatient));
+
+  return JSON.stringify(
+    rule
+      ? {
+          intent: rule.intent,
+          objection: rule.objection,
+          suggestions: [
+            ...rule.suggestions,
+            "Then ask for the appointment with a specific day and time.",
+          ],
+        }
+      : {
+          intent: "Sharing their situation",
+          objection: false,
+          suggestions: [
+            "Acknowledge what they said and use their name.",
+            "Ask a follow-up question about their pain.",
+            "Offer a specific time for a first visit.",
+          ],
+        }
+  );
+}
+
+// The event note the server put just before the VA's latest line, if any.
+function lastEventReaction(messages: ChatMessage[]) {
+  const i = messages.map((m) => m.role).lastIndexOf("user");
+  const note = messages[i - 1];
+  // Index 0 is the persona prompt, not a note.
+  if (i < 2 || note.role !== "system") return undefined;
+  return EVENT_REACTIONS.find(({ applies }) => applies(note.content));
+}
+
+function applyMoodChange(mood: PatientMood, change: Partial<PatientMood>) {
+  for (const [key, delta] of Object.entries(change) as [
+    keyof PatientMood,
+    number,
+  ][]) {
+    mood[key] = Math.min(10, Math.max(0, mood[key] + delta));
+  }
+}
+
+// Reads the mood note the server appends, then applies MOOD_RULES and the
+// reaction to any call event.
+function mockMood(
+  messages: ChatMessage[],
+  staffLine: string,
+  reaction: ReturnType<typeof lastEventReaction>
+): PatientMood {
+  const note = [...messages]
+    .reverse()
+    .find((m) => m.role === "system" && MOOD_NOTE_RE.test(m.content));
+  const match = note?.content.match(MOOD_NOTE_RE);
+  const mood: PatientMood = match
+    ? { trust: +match[1], frustration: +match[2], interest: +match[3] }
+    : { ...MOCK_STARTING_MOOD };
+
+  for (const { pattern, change } of MOOD_RULES) {
+    if (pattern.test(staffLine)) applyMoodChange(mood, change);
+  }
+  if (reaction) applyMoodChange(mood, reaction.change);
+  return mood;
+}
+
+// Scripted conversation: a couple of keyword reactions, then the patient
+// books once the script runs out, or hangs up if the VA is rude or the
+// mood sours. Long holds, transfers and callbacks get their own lines.
+function mockPatientReply(messages: ChatMessage[]) {
+  const replies = messages.filter((m) => m.role === "assistant").length;
+  const lastStaff = [...messages].reverse().find((m) => m.role === "user");
+  const reaction = lastEventReaction(messages);
+  const mood = mockMood(messages, lastStaff?.content ?? "", reaction);
+  // Outbound calls: the patient doesn't know who rang at first.
+  const pickingUp =
+    replies === 0 &&
+    messages[0]?.content.includes("has just answered their phone");
+  const said = (reply: string) =>
+    messages.some((m) => m.role === "assistant" && m.content === reply);
+
+  let reply: string;
+  let status = "engaged";
+  let bookedSlot: string | null = null;
+
+  const keyword = PATIENT_KEYWORD_REPLIES.find(
+    ({ pattern, reply }) =>
+      lastStaff && pattern.test(lastStaff.content) && !said(reply)
+  );
+
+  if (
+    mood.frustration >= HANG_UP_FRUSTRATION ||
+    mood.trust <= HANG_UP_TRUST
+  ) {
+    reply = MOCK_HANG_UP_LINE;
+    status = "hung_up";
+  } else if (lastStaff && RUDE_RE.test(lastStaff.content)) {
+    reply = MOCK_COLD_LINE;
+  } else if (reaction) {
+    reply = reaction.reply;
+  } else if (pickingUp) {
+    reply = MOCK_PICK_UP_LINE;
+  } else if (keyword) {
+    reply = keyword.reply;
+  } else if (replies < MOCK_PATIENT_LINES.length) {
+    reply = MOCK_PATIENT_LINES[replies];
+  } else {
+    // Takes the latest time the VA offered, if they named one.
+    const offered = messages
+      .filter((m) => m.role === "user")
+      .map((m) => m.content.match(OFFERED_SLOT_RE)?.[0])
+      .filter(Boolean)
+      .at(-1);
+    reply = offered
+      ? `${offered[0].toUpperCase()}${offered.slice(1)} works. Let's book it, thanks!`
+      : MOCK_BOOKED_LINE;
+    status = "booked";
+    bookedSlot = offered ?? MOCK_BOOKED_SLOT;
+  }
+
+  return JSON.stringify({ reply, status, bookedSlot, mood });
+}
+
+// Builds a silent 8 kHz mono WAV whose length roughly matches how long the
+// text would take to say, so playback timing still feels like a call.
+function silentWav(text: string) {
+  const sampleRate = 8000;
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const seconds = Math.min(6, Math.max(0.5, words * 0.35));
+  const dataSize = Math.round(sampleRate * seconds) * 2;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write("RIFF", 0);
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write("WAVE", 8);
+  buffer.write("fmt ", 12);
+  buffer.writeUInt32LE(16, 16); // PCM chunk size
+  buffer.writeUInt16LE(1, 20); // PCM format
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  buffer.writeUInt16LE(2, 32); // block align
+  buffer.writeUInt16LE(16, 34); // bits per sample
+  buffer.write("data", 36);
+  buffer.writeUInt32LE(dataSize, 40);
+
+  return buffer;
+}
+
+export function createMockSpeechToText(): SpeechToText {
+  return {
+    // Text uploads are echoed back so tests can script exactly what the VA
+    // "said"; real audio maps to a canned line chosen by its content.
+    async transcribe(audio) {
+      if (audio.type.startsWith("text/")) return audio.text();
+      const bytes = new Uint8Array(await audio.arrayBuffer());
+      return MOCK_STAFF_LINES[hash(bytes) % MOCK_STAFF_LINES.length];
+    },
+  };
+}
+
+export function createMockChatModel(): ChatModel {
+  const model: ChatModel = {
+    async complete(messages, options) {
+      switch (options.task) {
+        case "score-call":
+          return mockScore(messages);
+        case "patient-reply":
+          return mockPatientReply(messages);
+        case "coach":
+          return mockCoach(messages);
+      }
+    },
+    // Replays the canned completion in small fixed-size pieces, like tokens.
+    async *stream(messages, options) {
+      const text = await model.complete(messages, options);
+      for (let i = 0; i < text.length; i += 8) {
+        yield text.slice(i, i + 8);
+      }
+    },
+  };
+  return model;
+}
+
+export function createMockTextToSpeech(): TextToSpeech {
+  return {
+    async synthesize(text) {
+      return { audio: silentWav(text), mimeType: "audio/wav" };
+    },
+  };
+}
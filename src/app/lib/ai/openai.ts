@@ -0,0 +1,91 @@
+import OpenAI from "openai";
+import type { ChatModel, SpeechToText, TextToSpeech } from "./types";
+
+let client: OpenAI | null = null;
+
+// Created on first use so a missing key only matters when OpenAI is
+// actually selected, not whenever a route module is loaded.
+function getClient() {
+  if (!client) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        "OPENAI_API_KEY is not set. Set it, or use AI_PROVIDER=mock."
+      );
+    }
+    client = new OpenAI({ apiKey });
+  }
+  return client;
+}
+
+// Whisper tidies away "um" and "uh" unless the prompt already has them, and
+// the speech metrics count those fillers.
+const KEEP_FILLERS_PROMPT = "Umm, let me think like, hmm... uh, okay, so, um.";
+
+export function createOpenAISpeechToText(
+  model = process.env.OPENAI_STT_MODEL || "whisper-1"
+): SpeechToText {
+  return {
+    async transcribe(audio) {
+      const transcription = await getClient().audio.transcriptions.create({
+        file: audio,
+        model,
+        prompt: KEEP_FILLERS_PROMPT,
+      });
+      return transcription.text;
+    },
+  };
+}
+
+export function createOpenAIChatModel(
+  model = process.env.OPENAI_CHAT_MODEL || "gpt-4o-mini"
+): ChatModel {
+  return {
+    async complete(messages, options) {
+      const chat = await getClient().chat.completions.create({
+        model,
+        messages,
+        temperature: options.temperature,
+        ...(options.json
+          ? { response_format: { type: "json_object" as const } }
+          : {}),
+      });
+      return chat.choices[0]?.message?.content ?? "";
+    },
+    async *stream(messages, options) {
+      const chunks = await getClient().chat.completions.create({
+        model,
+        messages,
+        temperature: options.temperature,
+        stream: true,
+        ...(options.json
+          ? { response_format: { type: "json_object" as const } }
+          : {}),
+      });
+      for await (const chunk of chunks) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
+
+export function createOpenAITextToSpeech(
+  model = process.env.OPENAI_TTS_MODEL || "gpt-4o-realtime-preview",
+  voice = process.env.OPENAI_TTS_VOICE || "alloy"
+): TextToSpeech {
+  return {
+    async synthesize(text) {
+      const speech = await getClient().audio.speech.create({
+        model,
+        voice,
+        input: text,
+        response_format: "mp3",
+      });
+      return {
+        audio: Buffer.from(await speech.arrayBuffer()),
+        mimeType: "audio/mpeg",
+      };
+    },
+  };
+}
@@ -0,0 +1,44 @@
+// Provider-neutral interfaces for the three AI jobs in a training call.
+// Route handlers only talk to these; see ./index.ts for how one is chosen.
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+// What a completion is for. Real providers ignore it; the mock provider
+// uses it to decide what kind of canned answer to give.
+export type ChatTask = "patient-reply" | "score-call" | "coach";
+
+export type ChatOptions = {
+  task: ChatTask;
+  temperature?: number;
+  json?: boolean; // reply must be a single JSON object
+};
+
+export type SynthesizedSpeech = {
+  audio: Buffer;
+  mimeType: string;
+};
+
+export interface SpeechToText {
+  transcribe(audio: File): Promise<string>;
+}
+
+export interface ChatModel {
+  complete(messages: ChatMessage[], options: ChatOptions): Promise<string>;
+  // Same completion, yielded as text deltas while it is generated.
+  stream(messages: ChatMessage[], options: ChatOptions): AsyncIterable<string>;
+}
+
+export interface TextToSpeech {
+  synthesize(text: string): Promise<SynthesizedSpeech>;
+}
+
+export type ProviderId = "openai" | "mock";
+
+export type AIProviders = {
+  stt: SpeechToText;
+  chat: ChatModel;
+  tts: TextToSpeech;
+};
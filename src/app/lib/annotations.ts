@@ -0,0 +1,122 @@
+import type { Annotation, TextSpan } from "../types/annotation";
+import type { Turn } from "../types/call";
+import type { CallSession } from "../types/session";
+import { newId } from "./ids";
+
+// Trainer feedback on saved calls. Annotations live on the CallSession; the
+// /api/calls/:id/annotations routes apply these changes on the server.
+
+export const ANNOTATION_LABELS = [
+  "Great empathy",
+  "Clear explanation",
+  "Good booking ask",
+  "Missed booking ask",
+  "Wrong information",
+  "Too much jargon",
+  "Talked over the patient",
+];
+
+export const MAX_LABEL_LENGTH = 40;
+export const MAX_COMMENT_LENGTH = 1000;
+
+export type AnnotationInput = Pick<
+  Annotation,
+  "turnIndex" | "span" | "label" | "comment"
+>;
+
+// Problems with an annotation before it is added, empty when it is fine.
+export function checkAnnotation(turns: Turn[], input: AnnotationInput) {
+  const problems: string[] = [];
+  const turn = turns[input.turnIndex];
+  if (!turn || turn.role === "event") problems.push("Pick a line of the call");
+  if (input.span) {
+    const { start, end } = input.span;
+    if (!turn || start < 0 || end > turn.text.length || start >= end) {
+      problems.push("The highlight must be inside the line");
+    }
+    if (!input.label) problems.push("Give the highlight a label");
+  }
+  if (!input.span && !input.label && !input.comment) {
+    problems.push("Add a label or a comment");
+  }
+  if ((input.label?.length ?? 0) > MAX_LABEL_LENGTH) {
+    problems.push(`Labels are at most ${MAX_LABEL_LENGTH} characters`);
+  }
+  if ((input.comment?.length ?? 0) > MAX_COMMENT_LENGTH) {
+    problems.push(`Comments are at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+  return problems;
+}
+
+export function addAnnotation(
+  session: CallSession,
+  input: AnnotationInput
+): CallSession {
+  const annotation: Annotation = {
+    ...input,
+    id: newId(),
+    createdAt: new Date().toISOString(),
+  };
+  return {
+    ...session,
+    annotations: [...(session.annotations ?? []), annotation],
+  };
+}
+
+export function resolveAnnotation(
+  session: CallSession,
+  id: string
+): CallSession {
+  const resolvedAt = new Date().toISOString();
+  return {
+    ...session,
+    annotations: session.annotations?.map((a) =>
+      a.id === id ? { ...a, resolvedAt } : a
+    ),
+  };
+}
+
+export function removeAnnotation(
+  session: CallSession,
+  id: string
+): CallSession {
+  return {
+    ...session,
+    annotations: session.annotations?.filter((a) => a.id !== id),
+  };
+}
+
+// Comments waiting on the VA. Labels without a comment are just highlights.
+export function isOpenComment(annotation: Annotation) {
+  return Boolean(annotation.comment) && !annotation.resolvedAt;
+}
+
+// Open comments across saved calls, newest call first, for the home page.
+export function openComments(sessions: CallSession[]) {
+  return sessions.flatMap((session) =>
+    (session.annotations ?? [])
+      .filter(isOpenComment)
+      .map((annotation) => ({ session, annotation }))
+  );
+}
+
+// Splits a line into plain and highlighted pieces. Where highlights
+// overlap, the one that starts first wins.
+export function highlightSegments(text: string, annotations: Annotation[]) {
+  const spans = annotations
+    .filter((a): a is Annotation & { span: TextSpan } => Boolean(a.span))
+    .sort((a, b) => a.span.start - b.span.start);
+
+  const segments: { text: string; annotation?: Annotation }[] = [];
+  let at = 0;
+  for (const annotation of spans) {
+    const start = Math.max(annotation.span.start, at);
+    const end = Math.min(annotation.span.end, text.length);
+    if (start >= end) continue;
+    if (start > at) segments.push({ text: text.slice(at, start) });
+    segments.push({ text: text.slice(start, end), annotation });
+    at = end;
+  }
+  if (at < text.length) segments.push({ text: text.slice(at) });
+  return segments;
+}
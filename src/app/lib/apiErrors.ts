@@ -0,0 +1,69 @@
+import type { ApiErrorBody, ApiErrorCode } from "../types/errors";
+
+// What the train page tells the VA for each error code.
+export const API_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+  bad_input: "That request was rejected.",
+  unauthorized: "You're signed out. Sign in again to continue.",
+  forbidden: "Only trainers can do that.",
+  not_found: "That no longer exists. Reload the page.",
+  session_not_found:
+    "This call's session has expired on the server. Start a new call.",
+  call_ended: "This call has already ended.",
+  transcription_failed:
+    "We couldn't transcribe that recording. Try saying it again.",
+  empty_speech:
+    "We didn't catch any words in that recording. Check your mic and try again.",
+  model_failed: "The patient didn't answer (the AI model failed). Try again.",
+  tts_failed:
+    "The patient's reply couldn't be turned into speech. Try again, or switch to typed practice.",
+  server_error: "Something went wrong on the server. Try again.",
+};
+
+function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as ApiErrorBody).code === "string" &&
+    (value as ApiErrorBody).code in API_ERROR_MESSAGES
+  );
+}
+
+// A user-facing message for an error body. Validation errors list their
+// details, which are written to be read by the VA or trainer.
+export function describeApiError(body: unknown) {
+  if (!isApiErrorBody(body)) return API_ERROR_MESSAGES.server_error;
+  if (body.code === "bad_input") {
+    const details = body.details?.length ? ` ${body.details.join("; ")}` : "";
+    return `${body.error}.${details}`;
+  }
+  return API_ERROR_MESSAGES[body.code];
+}
+
+// Reads a failed response's body and describes it.
+export async function readApiError(res: Response) {
+  const text = await res.text();
+  console.error("API error:", text);
+  try {
+    return describeApiError(JSON.parse(text));
+  } catch {
+    return API_ERROR_MESSAGES.server_error;
+  }
+}
+
+// Calls a JSON route. Failed requests throw with a message that can be
+// shown as is.
+export async function apiRequest<T>(
+  url: string,
+  method = "GET",
+  body?: unknown
+) {
+  const res = await fetch(url, {
+    method,
+    ...(body !== undefined && {
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+  });
+  if (!res.ok) throw new Error(await readApiError(res));
+  return (await res.json()) as T;
+}
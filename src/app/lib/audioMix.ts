@@ -0,0 +1,101 @@
+import type {
+  CallRecording,
+  MixedRecording,
+  RecordingTimeline,
+} from "../types/recording";
+
+// Browser-only: renders a call's clips onto one track with Web Audio, and
+// encodes the result as a WAV file for replay and download.
+
+const SAMPLE_RATE = 24000;
+
+export async function mixRecording(
+  recording: CallRecording
+): Promise<AudioBuffer> {
+  const length = Math.max(
+    1,
+    Math.ceil((recording.durationMs / 1000) * SAMPLE_RATE)
+  );
+  const context = new OfflineAudioContext(1, length, SAMPLE_RATE);
+
+  for (const clip of recording.clips) {
+    try {
+      const buffer = await context.decodeAudioData(
+        await clip.audio.arrayBuffer()
+      );
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(context.destination);
+      // Cut off where the clip stopped on the call, e.g. at a barge-in.
+      source.start(clip.startMs / 1000, 0, clip.durationMs / 1000);
+    } catch (err) {
+      console.error("Skipping a clip that could not be decoded", err);
+    }
+  }
+
+  return context.startRendering();
+}
+
+// 16-bit PCM, mono.
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const samples = buffer.getChannelData(0);
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const text = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  text(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  text(8, "WAVE");
+  text(12, "fmt ");
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  text(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  samples.forEach((sample, i) => {
+    const s = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  });
+
+  return new Blob([view], { type: "audio/wav" });
+}
+
+// The mixed track with the clips' timeline, ready to upload or replay.
+export async function mixCallRecording(
+  recording: CallRecording
+): Promise<MixedRecording> {
+  return {
+    callId: recording.callId,
+    clips: recording.clips.map(({ turnIndex, role, startMs, durationMs }) => ({
+      turnIndex,
+      role,
+      startMs,
+      durationMs,
+    })),
+    durationMs: recording.durationMs,
+    audio: encodeWav(await mixRecording(recording)),
+  };
+}
+
+// Patient speech arrives as base64 in the turn stream.
+export function base64ToBlob(base64: string, mimeType: string) {
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+}
+
+// Which turn is audible at `ms`, for highlighting during replay.
+export function turnAt(recording: RecordingTimeline, ms: number) {
+  const clip = recording.clips.find(
+    (c) => ms >= c.startMs && ms < c.startMs + c.durationMs
+  );
+  return clip ? clip.turnIndex : null;
+}
@@ -0,0 +1,238 @@
+import type {
+  AppointmentBook,
+  Booking,
+  BookingCheck,
+  CalendarSlot,
+} from "../types/calendar";
+import type { ClinicConfig } from "../types/config";
+import type { DayId, WeeklySchedule } from "./officeHours";
+import {
+  DAY_NAMES,
+  findDays,
+  formatMinutes,
+  isScheduleEmpty,
+  parseOfficeHours,
+  toMinutes,
+} from "./officeHours";
+
+// The simulated appointment book. Pure and seeded, so the page can show
+// the same calendar the server will create before the call has started.
+
+export const SLOT_MINUTES = 30;
+export const BOOK_DAYS = 5; // open days shown, starting tomorrow
+const SEEDED_SHARE = 0.55; // of slots already taken by other patients
+
+const SEED_NAMES = [
+  "J. Alvarez",
+  "M. Chen",
+  "R. Okafor",
+  "S. Patel",
+  "T. Nguyen",
+  "K. Murphy",
+  "L. Rossi",
+  "D. Kim",
+  "A. Johnson",
+  "P. Silva",
+  "E. Novak",
+  "G. Brooks",
+];
+
+// Date keys are plain calendar days; arithmetic is done in UTC so daylight
+// saving never shifts a day.
+export function toDateKey(date: Date) {
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+function keyToUtc(key: string) {
+  return new Date(`${key}T00:00:00Z`);
+}
+
+export function addDays(key: string, days: number) {
+  const date = keyToUtc(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+export function dayOfDate(key: string): DayId {
+  return keyToUtc(key).getUTCDay() as DayId;
+}
+
+export function describeDate(key: string) {
+  const date = keyToUtc(key);
+  const month = date.toLocaleString("en-US", { month: "short", timeZone: "UTC" });
+  return `${DAY_NAMES[date.getUTCDay()].slice(0, 3)} ${date.getUTCDate()} ${month}`;
+}
+
+export function describeSlot(slot: CalendarSlot) {
+  return `${describeDate(slot.date)}, ${formatMinutes(slot.start)}`;
+}
+
+export function sameSlot(a: CalendarSlot, b: CalendarSlot) {
+  return a.date === b.date && a.start === b.start;
+}
+
+// Every slot start on a day, whole slots inside opening hours only.
+export function slotTimes(schedule: WeeklySchedule, date: string) {
+  return schedule[dayOfDate(date)].flatMap((range) => {
+    const starts: number[] = [];
+    for (let t = range.start; t + SLOT_MINUTES <= range.end; t += SLOT_MINUTES) {
+      starts.push(t);
+    }
+    return starts;
+  });
+}
+
+export function isWithinHours(schedule: WeeklySchedule, slot: CalendarSlot) {
+  return slotTimes(schedule, slot.date).includes(slot.start);
+}
+
+function seededRandom(seed: string) {
+  let h = 1779033703;
+  for (const c of seed) h = Math.imul(h ^ c.charCodeAt(0), 3432918353);
+  return () => {
+    h = Math.imul(h ^ (h >>> 15), 2246822507);
+    h = Math.imul(h ^ (h >>> 13), 3266489909);
+    return ((h ^= h >>> 16) >>> 0) / 4294967296;
+  };
+}
+
+// The next BOOK_DAYS open days after `today` (a date key, the VA's own
+// date), about half full. The same schedule, day and seed always give the
+// same book.
+export function seedAppointmentBook(
+  schedule: WeeklySchedule,
+  today: string,
+  seed: string
+): AppointmentBook {
+  const dates: string[] = [];
+  if (!isScheduleEmpty(schedule)) {
+    for (let i = 1; dates.length < BOOK_DAYS && i <= 14; i++) {
+      const date = addDays(today, i);
+      if (slotTimes(schedule, date).length > 0) dates.push(date);
+    }
+  }
+
+  const random = seededRandom(`${seed}:${today}`);
+  const bookings: Booking[] = dates.flatMap((date) =>
+    slotTimes(schedule, date).flatMap((start) =>
+      random() < SEEDED_SHARE
+        ? [{ date, start, patientName: SEED_NAMES[Math.floor(random() * SEED_NAMES.length)] }]
+        : []
+    )
+  );
+
+  return { slotMinutes: SLOT_MINUTES, dates, bookings };
+}
+
+export function bookingAt(book: AppointmentBook, slot: CalendarSlot) {
+  return book.bookings.find((b) => sameSlot(b, slot)) ?? null;
+}
+
+export function callBooking(book: AppointmentBook) {
+  return book.bookings.find((b) => b.fromCall) ?? null;
+}
+
+export function isSlotOpen(
+  book: AppointmentBook,
+  schedule: WeeklySchedule,
+  slot: CalendarSlot
+) {
+  return (
+    book.dates.includes(slot.date) &&
+    isWithinHours(schedule, slot) &&
+    !bookingAt(book, slot)
+  );
+}
+
+// A call books one slot; booking another moves it.
+export function bookSlot(
+  book: AppointmentBook,
+  slot: CalendarSlot,
+  patientName: string
+): AppointmentBook {
+  return {
+    ...book,
+    bookings: [
+      ...book.bookings.filter((b) => !b.fromCall),
+      { date: slot.date, start: slot.start, patientName, fromCall: true },
+    ],
+  };
+}
+
+const SLOT_TIME_RE = /\b(\d{1,2})(?!\d)(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?(?!\s*(?:st|nd|rd|th)\b)|\bnoon\b/i;
+
+// Reads a slot like "Tuesday at 3pm" or "tomorrow at 10:30" relative to
+// the day of the call (a date key). Weekdays mean the next one after it.
+export function parseSlotText(text: string, today: string): CalendarSlot | null {
+  let date: string | null = null;
+  if (/\btomorrow\b/i.test(text)) date = addDays(today, 1);
+  else if (/\btoday\b/i.test(text)) date = today;
+  else {
+    const [day] = findDays(text);
+    if (day !== undefined) {
+      const ahead = ((day - dayOfDate(today) + 6) % 7) + 1;
+      date = addDays(today, ahead);
+    }
+  }
+
+  const time = text.match(SLOT_TIME_RE);
+  if (!date || !time) return null;
+  if (!time[1]) return { date, start: 12 * 60 };
+  const hour = Number(time[1]);
+  const minute = Number(time[2] || 0);
+  if (hour < 1 || hour > 12 || minute > 59) return null;
+  return { date, start: toMinutes(hour, minute, time[3]) };
+}
+
+export function checkBookedSlot(
+  agreed: string,
+  book: AppointmentBook,
+  clinic: ClinicConfig,
+  callDate: string
+): BookingCheck {
+  const schedule = parseOfficeHours(clinic.officeHours);
+  const slot = parseSlotText(agreed, callDate);
+  const booked = callBooking(book);
+
+  if (!slot) {
+    return {
+      agreed,
+      slot: null,
+      withinHours: false,
+      available: false,
+      matchesCalendar: false,
+      problems: [`"${agreed}" doesn't name a day and time that can be checked`],
+    };
+  }
+
+  const taken = book.bookings.find((b) => !b.fromCall && sameSlot(b, slot));
+  const withinHours = isWithinHours(schedule, slot);
+  const matchesCalendar = booked !== null && sameSlot(booked, slot);
+  const problems: string[] = [];
+  if (!withinHours) {
+    problems.push(
+      `${describeSlot(slot)} is outside office hours (${clinic.officeHours || "not set"})`
+    );
+  }
+  if (taken) {
+    problems.push(`${describeSlot(slot)} was already booked for ${taken.patientName}`);
+  }
+  if (!booked) {
+    problems.push("The VA never booked the slot in the calendar");
+  } else if (!matchesCalendar) {
+    problems.push(
+      `The calendar has ${describeSlot(booked)}, but the patient agreed to ${describeSlot(slot)}`
+    );
+  }
+
+  return {
+    agreed,
+    slot,
+    withinHours,
+    available: !taken,
+    matchesCalendar,
+    problems,
+  };
+}
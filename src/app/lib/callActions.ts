@@ -0,0 +1,56 @@
+import type { CallAction, Turn } from "../types/call";
+
+// Holds, transfers and callbacks. Shared by the server, which records them
+// and tells the patient model, and the page, which shows them as they happen.
+
+// Holds at least this long start to wear on the patient.
+export const LONG_HOLD_MS = 60_000;
+
+export const MAX_CALLBACK_LENGTH = 100;
+
+export function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// How the action reads in the transcript.
+export function describeCallAction(action: CallAction) {
+  switch (action.type) {
+    case "hold":
+      return `Put the caller on hold (${formatDuration(action.durationMs)})`;
+    case "transfer":
+      return "Transferred the caller to the doctor";
+    case "callback":
+      return `Offered a callback: ${action.when}`;
+  }
+}
+
+export function callActionTurn(action: CallAction): Turn {
+  return { role: "event", text: describeCallAction(action), action };
+}
+
+// The system note the patient model gets, written from the caller's side.
+export function describeActionForPatient(
+  action: CallAction,
+  doctorName: string
+) {
+  switch (action.type) {
+    case "hold":
+      return `The receptionist put you on hold for ${Math.round(action.durationMs / 1000)} seconds before their next line.`;
+    case "transfer":
+      return `The receptionist is transferring you to ${doctorName}. Answer their next line; the call with them ends after your reply.`;
+    case "callback":
+      return `Instead of sorting it out now, the receptionist is offering to have the office call you back (${action.when}).`;
+  }
+}
+
+// The action that went with the VA's latest line, if any.
+export function lastCallAction(turns: Turn[]): CallAction | null {
+  const i = turns.map((t) => t.role).lastIndexOf("staff");
+  const before = i > 0 ? turns[i - 1] : undefined;
+  return before?.role === "event" && before.action ? before.action : null;
+}
+
+export function callEvents(turns: Turn[]) {
+  return turns.filter((t) => t.role === "event");
+}
@@ -0,0 +1,86 @@
+import type { CallSession } from "../types/session";
+import type { AnnotationInput } from "./annotations";
+import { apiRequest, readApiError } from "./apiErrors";
+import { migrateClinicConfig } from "./clinicConfig";
+
+// Everything that reads or writes saved calls goes through this interface.
+export interface CallHistoryStore {
+  list(): Promise<CallSession[]>;
+  get(id: string): Promise<CallSession | null>;
+  // Calls are saved by the server when they end; only trainer feedback
+  // changes afterwards. Each change returns the call as saved.
+  annotate(id: string, input: AnnotationInput): Promise<CallSession>;
+  resolveAnnotation(id: string, annotationId: string): Promise<CallSession>;
+  removeAnnotation(id: string, annotationId: string): Promise<CallSession>;
+}
+
+// Calls saved in this browser before history moved to the server. They
+// still show up here, read-only, after the server's calls.
+function readLocalCalls(key: string): CallSession[] {
+  if (typeof window === "undefined") return [];
+  const stored = window.localStorage.getItem(key);
+  if (!stored) return [];
+  try {
+    // Calls saved before the clinic schema changed keep their old shape.
+    return (JSON.parse(stored) as CallSession[]).map((s) => ({
+      ...s,
+      clinic: migrateClinicConfig(s.clinic),
+    }));
+  } catch (err) {
+    console.error(`Failed to parse ${key}`, err);
+    return [];
+  }
+}
+
+// Saved calls from /api/calls: every VA's for trainers, a VA's own for VAs.
+export function createApiHistoryStore(
+  localKey = "callHistory"
+): CallHistoryStore {
+  const annotationsUrl = (id: string) =>
+    `/api/calls/${encodeURIComponent(id)}/annotations`;
+
+  return {
+    async list() {
+      const { calls } = await apiRequest<{ calls: CallSession[] }>(
+        "/api/calls"
+      );
+      const onServer = new Set(calls.map((c) => c.id));
+      return [
+        ...calls,
+        ...readLocalCalls(localKey).filter((c) => !onServer.has(c.id)),
+      ].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    },
+    async get(id) {
+      const res = await fetch(`/api/calls/${encodeURIComponent(id)}`);
+      if (res.status === 404) {
+        return readLocalCalls(localKey).find((c) => c.id === id) ?? null;
+      }
+      if (!res.ok) throw new Error(await readApiError(res));
+      return ((await res.json()) as { call: CallSession }).call;
+    },
+    async annotate(id, input) {
+      const { call } = await apiRequest<{ call: CallSession }>(
+        annotationsUrl(id),
+        "POST",
+        input
+      );
+      return call;
+    },
+    async resolveAnnotation(id, annotationId) {
+      const { call } = await apiRequest<{ call: CallSession }>(
+        `${annotationsUrl(id)}/${encodeURIComponent(annotationId)}/resolve`,
+        "POST"
+      );
+      return call;
+    },
+    async removeAnnotation(id, annotationId) {
+      const { call } = await apiRequest<{ call: CallSession }>(
+        `${annotationsUrl(id)}/${encodeURIComponent(annotationId)}`,
+        "DELETE"
+      );
+      return call;
+    },
+  };
+}
+
+export const callHistory: CallHistoryStore = createApiHistoryStore();
@@ -0,0 +1,144 @@
+import type { Role } from "../types/call";
+import type { CallRecording, MixedRecording } from "../types/recording";
+import type { CallSession } from "../types/session";
+import { readApiError } from "./apiErrors";
+import { mixCallRecording } from "./audioMix";
+
+// Recordings are mixed into one track and uploaded with the call, so
+// trainers can replay any VA's call.
+export interface CallRecordingStore {
+  // The server's copy, or this browser's when the server has none (older
+  // calls, a failed upload) or can't be reached.
+  get(call: CallSession): Promise<MixedRecording | null>;
+  // Keeps a copy in this browser and uploads the mixed track.
+  save(recording: CallRecording): Promise<void>;
+}
+
+// The browser's own copies of the clips it captured. Call audio is far too
+// big for localStorage, so it lives in IndexedDB, keyed by the call id.
+export interface LocalRecordingStore {
+  get(callId: string): Promise<CallRecording | null>;
+  save(recording: CallRecording): Promise<void>;
+  remove(callId: string): Promise<void>;
+}
+
+const STORE_NAME = "recordings";
+
+// A clip as captured during the call; `at` is a performance.now() time.
+export type CapturedClip = {
+  turnIndex: number;
+  role: Role;
+  at: number;
+  durationMs: number;
+  audio: Blob;
+};
+
+// Puts captured clips on one timeline starting at the first sound, or
+// returns null when nothing was heard (e.g. a typed call without voice).
+export function buildCallRecording(
+  callId: string,
+  captured: CapturedClip[]
+): CallRecording | null {
+  if (captured.length === 0) return null;
+  const start = Math.min(...captured.map((c) => c.at));
+  const clips = captured
+    .map(({ at, durationMs, ...clip }) => ({
+      ...clip,
+      startMs: Math.round(at - start),
+      durationMs: Math.round(durationMs),
+    }))
+    .sort((a, b) => a.startMs - b.startMs);
+  return {
+    callId,
+    clips,
+    durationMs: Math.max(...clips.map((c) => c.startMs + c.durationMs)),
+  };
+}
+
+export function createIndexedDbRecordingStore(
+  dbName = "callRecordings"
+): LocalRecordingStore {
+  let db: Promise<IDBDatabase> | null = null;
+
+  function open() {
+    db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(STORE_NAME, { keyPath: "callId" });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return db;
+  }
+
+  async function run<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const store = (await open())
+      .transaction(STORE_NAME, mode)
+      .objectStore(STORE_NAME);
+    return new Promise((resolve, reject) => {
+      const request = action(store);
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  return {
+    async get(callId) {
+      if (typeof indexedDB === "undefined") return null;
+      const found = await run<CallRecording | undefined>("readonly", (s) =>
+        s.get(callId)
+      );
+      return found ?? null;
+    },
+    async save(recording) {
+      await run("readwrite", (s) => s.put(recording));
+    },
+    async remove(callId) {
+      await run("readwrite", (s) => s.delete(callId));
+    },
+  };
+}
+
+export function createApiRecordingStore(
+  local: LocalRecordingStore
+): CallRecordingStore {
+  const url = (callId: string) =>
+    `/api/calls/${encodeURIComponent(callId)}/recording`;
+
+  return {
+    async get(call) {
+      if (call.recording) {
+        try {
+          const res = await fetch(url(call.id));
+          if (res.ok) {
+            return { callId: call.id, ...call.recording, audio: await res.blob() };
+          }
+          console.error("Failed to load call recording", await readApiError(res));
+        } catch (err) {
+          console.error("Failed to load call recording", err);
+        }
+      }
+      const kept = await local.get(call.id);
+      return kept ? mixCallRecording(kept) : null;
+    },
+    async save(recording) {
+      await local
+        .save(recording)
+        .catch((err) => console.error("Failed to keep call recording", err));
+
+      const { callId, audio, ...timeline } = await mixCallRecording(recording);
+      const form = new FormData();
+      form.append("audio", audio, `call-${callId}.wav`);
+      form.append("timeline", JSON.stringify(timeline));
+      const res = await fetch(url(callId), { method: "PUT", body: form });
+      if (!res.ok) throw new Error(await readApiError(res));
+    },
+  };
+}
+
+export const callRecordings: CallRecordingStore = createApiRecordingStore(
+  createIndexedDbRecordingStore()
+);
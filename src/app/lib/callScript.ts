@@ -0,0 +1,166 @@
+import type { Turn } from "../types/call";
+import type { ChecklistResult } from "../types/checklist";
+import type { ClinicConfig, ClinicScriptItem } from "../types/config";
+
+// Fuzzy matching of staff turns against the clinic's call script. Like the
+// fact check it is rule-based, so items tick off in the browser as the call
+// goes and the saved summary is the same one the VA saw.
+
+// Share of an example's words a turn has to contain, in order, to count.
+// Short examples have to match in full.
+const MATCH_THRESHOLD = 0.6;
+const SHORT_EXAMPLE_WORDS = 3;
+
+const IGNORED_WORDS = new Set(["a", "an", "the", "to", "of", "and", "um", "uh"]);
+
+const DAY_RE =
+  /^(today|tomorrow|monday|tuesday|wednesday|thursday|friday|saturday|sunday|mon|tue|tues|wed|thu|thurs|fri|sat|sun)$/;
+const TIME_RE = /^(\d{1,2}(am|pm)?|am|pm|noon|morning|afternoon|evening)$/;
+
+// Placeholders that stand for a class of words rather than clinic text.
+const WORD_CLASSES: Record<string, RegExp> = {
+  "{day}": DAY_RE,
+  "{time}": TIME_RE,
+};
+
+function words(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9{}]+/)
+    .filter((w) => w && !IGNORED_WORDS.has(w));
+}
+
+// Tolerates endings ("thanks"/"thank", "consult"/"consultation") and
+// one-letter transcription slips in longer words.
+function similar(a: string, b: string) {
+  if (a === b) return true;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  if (short.length >= 4 && long.startsWith(short)) return true;
+  return short.length >= 5 && long.length - short.length <= 1 && editDistance(a, b) <= 1;
+}
+
+function editDistance(a: string, b: string) {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function wordMatches(expected: string, said: string) {
+  const wordClass = WORD_CLASSES[expected];
+  return wordClass ? wordClass.test(said) : similar(expected, said);
+}
+
+// Longest in-order run of example words found in the turn, so "calling
+// thank you" doesn't pass for "thank you for calling".
+function orderedMatches(expected: string[], said: string[]) {
+  let prev = new Array<number>(said.length + 1).fill(0);
+  for (const word of expected) {
+    const row = [0];
+    for (let j = 1; j <= said.length; j++) {
+      row[j] = wordMatches(word, said[j - 1])
+        ? prev[j - 1] + 1
+        : Math.max(prev[j], row[j - 1]);
+    }
+    prev = row;
+  }
+  return prev[said.length];
+}
+
+export function fillScriptPlaceholders(example: string, clinic: ClinicConfig) {
+  return example
+    .replace(/\{clinic\}/g, clinic.clinicName)
+    .replace(/\{doctor\}/g, clinic.doctorName)
+    .replace(/\{price\}/g, `$${clinic.firstVisitCost}`);
+}
+
+function coversWords(expected: string[], said: string[]) {
+  if (expected.length === 0) return false;
+  const needed =
+    expected.length <= SHORT_EXAMPLE_WORDS
+      ? expected.length
+      : Math.ceil(expected.length * MATCH_THRESHOLD);
+  return orderedMatches(expected, said) >= needed;
+}
+
+// "This is Jess", "my name is Jess", "I'm Jess", "Jess speaking". Only used
+// when the VA's name isn't known. The name has to be capitalised, as
+// transcripts write names, and can't be a word from the clinic's or
+// doctor's name ("this is Brighton Spine").
+const OWN_NAME_RE =
+  /\b(?:[Tt]his is|[Mm]y name is|[Mm]y name's|I['’]m|I am)\s+([A-Z][a-z]+)|\b([A-Z][a-z]+)(?: here)? speaking\b/g;
+
+// With the VA's name known, any word of it in the turn counts, whatever the
+// case ("hi, this is ana"). Words shared with the clinic's or doctor's name
+// don't, so "Brighton" can't tick it off by naming the clinic.
+function givesOwnName(text: string, clinic: ClinicConfig, vaName?: string) {
+  const taken = new Set(words(`${clinic.clinicName} ${clinic.doctorName}`));
+  const own = words(vaName ?? "").filter((w) => w.length > 1 && !taken.has(w));
+  if (own.length > 0) {
+    return words(text).some((w) => own.includes(w));
+  }
+  return [...text.matchAll(OWN_NAME_RE)].some((match) => {
+    const name = (match[1] ?? match[2]).toLowerCase();
+    return !taken.has(name) && !DAY_RE.test(name);
+  });
+}
+
+// `opening` is the call's first staff turn. There, saying the clinic's name
+// covers any item whose example names the clinic, however the VA words the
+// greeting; later turns have to come close to the example. `vaName` is the
+// VA's display name, for {name}.
+export function coversScriptItem(
+  text: string,
+  item: ClinicScriptItem,
+  clinic: ClinicConfig,
+  opening = false,
+  vaName?: string
+) {
+  const said = words(text);
+  return item.example.split("|").some((example) => {
+    if (example.includes("{name}")) return givesOwnName(text, clinic, vaName);
+    if (
+      opening &&
+      example.includes("{clinic}") &&
+      coversWords(words(clinic.clinicName), said)
+    ) {
+      return true;
+    }
+    return coversWords(words(fillScriptPlaceholders(example, clinic)), said);
+  });
+}
+
+// One result per script item, in script order.
+export function checkCallScript(
+  turns: Turn[],
+  clinic: ClinicConfig,
+  vaName?: string
+): ChecklistResult[] {
+  const opening = turns.findIndex((turn) => turn.role === "staff");
+  return clinic.script.map((item) => {
+    const turnIndex = turns.findIndex(
+      (turn, i) =>
+        turn.role === "staff" &&
+        coversScriptItem(turn.text, item, clinic, i === opening, vaName)
+    );
+    return {
+      itemId: item.id,
+      label: item.label,
+      turnIndex: turnIndex === -1 ? null : turnIndex,
+    };
+  });
+}
+
+export function missedScriptItems(results: ChecklistResult[]) {
+  return results.filter((r) => r.turnIndex === null);
+}
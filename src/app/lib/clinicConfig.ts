@@ -0,0 +1,240 @@
+import type {
+  ClinicConfig,
+  ClinicConfigV1,
+  ClinicScriptItem,
+  ClinicService,
+} from "../types/config";
+import { newId } from "./ids";
+
+export const CLINIC_CONFIG_VERSION = 3;
+
+// What each of the old fixed checkboxes becomes in the service list.
+const V1_SERVICES: {
+  key: keyof ClinicConfigV1["services"];
+  name: string;
+  description: string;
+}[] = [
+  {
+    key: "decompression",
+    name: "Spinal Decompression",
+    description: "Non-surgical traction for disc-related back and neck pain.",
+  },
+  {
+    key: "classIVLaser",
+    name: "Class IV Laser Therapy",
+    description: "Deep-tissue laser to reduce pain and inflammation.",
+  },
+  {
+    key: "shockwave",
+    name: "Shockwave Therapy",
+    description: "Acoustic waves for chronic tendon and soft-tissue pain.",
+  },
+];
+
+// What most clinics want on every call. New and upgraded configs start
+// from this, and trainers edit it per clinic.
+const DEFAULT_SCRIPT: Omit<ClinicScriptItem, "id">[] = [
+  {
+    label: "Clinic name in the greeting",
+    example: "Thank you for calling {clinic}",
+  },
+  {
+    label: "Give your own name",
+    example: "My name is {name} | This is {name} speaking",
+  },
+  {
+    label: "Offer the first visit",
+    example: "Your first visit is {price} and includes a consultation and exam",
+  },
+  {
+    label: "Ask for the caller's phone number",
+    example:
+      "What's the best phone number to reach you? | What's a good number for you?",
+  },
+  {
+    label: "Confirm the appointment time",
+    example:
+      "You're all set for {day} at {time} | I have you booked for {day} at {time}",
+  },
+];
+
+// Default wording from before the {name} placeholder, which only ticked off
+// for VAs called Sam.
+const OLD_OWN_NAME_EXAMPLE = "My name is Sam | This is Sam speaking";
+
+export function defaultCallScript(): ClinicScriptItem[] {
+  return DEFAULT_SCRIPT.map((item) => ({ id: newId(), ...item }));
+}
+
+export function blankClinicConfig(): ClinicConfig {
+  return {
+    version: CLINIC_CONFIG_VERSION,
+    clinicName: "",
+    doctorName: "",
+    firstVisitCost: 0,
+    address: "",
+    officeHours: "",
+    services: [],
+    insurance: { accepted: [], notes: "" },
+    policies: [],
+    faqs: [],
+    script: defaultCallScript(),
+  };
+}
+
+export function blankScriptItem(): ClinicScriptItem {
+  return { id: newId(), label: "", example: "" };
+}
+
+export function blankService(): ClinicService {
+  return { id: newId(), name: "", description: "", price: null };
+}
+
+function isV1(config: ClinicConfigV1 | ClinicConfig): config is ClinicConfigV1 {
+  return !("version" in config) && !Array.isArray(config.services);
+}
+
+// Upgrades any saved shape to the current one. Missing lists are filled in
+// so hand-edited or partial configs still load.
+export function migrateClinicConfig(
+  config: ClinicConfigV1 | ClinicConfig
+): ClinicConfig {
+  if (isV1(config)) {
+    const { services, ...rest } = config;
+    return {
+      ...blankClinicConfig(),
+      ...rest,
+      services: V1_SERVICES.filter(({ key }) => services?.[key]).map(
+        ({ name, description }) => ({
+          id: newId(),
+          name,
+          description,
+          price: null,
+        })
+      ),
+    };
+  }
+
+  const blank = blankClinicConfig();
+  return {
+    ...blank,
+    ...config,
+    version: CLINIC_CONFIG_VERSION,
+    services: config.services ?? [],
+    insurance: { ...blank.insurance, ...config.insurance },
+    policies: config.policies ?? [],
+    faqs: config.faqs ?? [],
+    script: (config.script ?? blank.script).map((item) =>
+      item.example === OLD_OWN_NAME_EXAMPLE
+        ? { ...item, example: DEFAULT_SCRIPT[1].example }
+        : item
+    ),
+  };
+}
+
+export type ClinicConfigCheck =
+  | { ok: true; config: ClinicConfig }
+  | { ok: false; errors: string[] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkList(
+  value: unknown,
+  label: string,
+  fields: string[],
+  errors: string[]
+) {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    errors.push(`${label} must be a list`);
+    return;
+  }
+  value.forEach((item, i) => {
+    if (!isRecord(item)) {
+      errors.push(`${label} #${i + 1} must be an object`);
+      return;
+    }
+    for (const field of fields) {
+      if (typeof item[field] !== "string") {
+        errors.push(`${label} #${i + 1} is missing "${field}"`);
+      }
+    }
+  });
+}
+
+// Checks untrusted input (an imported file, a request body) and returns it
+// in the current shape. Older versions are accepted and migrated.
+export function parseClinicConfig(value: unknown): ClinicConfigCheck {
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["Clinic config must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  for (const field of ["clinicName", "doctorName", "address", "officeHours"]) {
+    if (typeof value[field] !== "string") {
+      errors.push(`"${field}" must be text`);
+    }
+  }
+  if (
+    typeof value.firstVisitCost !== "number" ||
+    !Number.isFinite(value.firstVisitCost) ||
+    value.firstVisitCost < 0
+  ) {
+    errors.push(`"firstVisitCost" must be a number of dollars, 0 or more`);
+  }
+  if (
+    value.version !== undefined &&
+    (typeof value.version !== "number" || value.version > CLINIC_CONFIG_VERSION)
+  ) {
+    errors.push(
+      `Unsupported version ${String(value.version)}; this app reads up to version ${CLINIC_CONFIG_VERSION}`
+    );
+  }
+
+  if (Array.isArray(value.services)) {
+    checkList(value.services, "Service", ["name", "description"], errors);
+    value.services.forEach((s, i) => {
+      if (!isRecord(s)) return;
+      const price = s.price;
+      if (price !== null && (typeof price !== "number" || price < 0)) {
+        errors.push(`Service #${i + 1} price must be a number or null`);
+      }
+    });
+  } else if (!isRecord(value.services)) {
+    errors.push(`"services" must be a list`);
+  }
+
+  if (value.insurance !== undefined) {
+    const insurance = value.insurance;
+    if (
+      !isRecord(insurance) ||
+      !Array.isArray(insurance.accepted) ||
+      insurance.accepted.some((a) => typeof a !== "string") ||
+      typeof insurance.notes !== "string"
+    ) {
+      errors.push(`"insurance" must have an "accepted" list and "notes"`);
+    }
+  }
+  checkList(value.policies, "Policy", ["title", "details"], errors);
+  checkList(value.faqs, "FAQ", ["question", "answer"], errors);
+  checkList(value.script, "Script item", ["label", "example"], errors);
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const config = migrateClinicConfig(
+    value as ClinicConfigV1 | ClinicConfig
+  );
+  // Imported entries may lack ids; every list item needs one to be edited.
+  return {
+    ok: true,
+    config: {
+      ...config,
+      services: config.services.map((s) => ({ ...s, id: s.id || newId() })),
+      policies: config.policies.map((p) => ({ ...p, id: p.id || newId() })),
+      faqs: config.faqs.map((f) => ({ ...f, id: f.id || newId() })),
+      script: config.script.map((s) => ({ ...s, id: s.id || newId() })),
+    },
+  };
+}
@@ -0,0 +1,185 @@
+import type {
+  ClinicConfig,
+  ClinicConfigV1,
+  ClinicProfile,
+  ClinicProfileFile,
+} from "../types/config";
+import { apiRequest, readApiError } from "./apiErrors";
+import {
+  blankClinicConfig,
+  migrateClinicConfig,
+  parseClinicConfig,
+} from "./clinicConfig";
+
+// Where the single config lived before profiles; uploaded along with the
+// profiles saved in the browser.
+const LEGACY_CONFIG_KEY = "clinicConfig";
+
+export function blankProfile(): ClinicProfile {
+  return { id: "", name: "", updatedAt: "", config: blankClinicConfig() };
+}
+
+export function duplicateProfile(profile: ClinicProfile): ClinicProfile {
+  return {
+    ...structuredClone(profile),
+    id: "",
+    name: `${profile.name} (copy)`,
+  };
+}
+
+export function profileToFile(profile: ClinicProfile) {
+  const file: ClinicProfileFile = {
+    kind: "clinic-profile",
+    name: profile.name,
+    config: profile.config,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export type ProfileFileCheck =
+  | { ok: true; profile: ClinicProfile }
+  | { ok: false; errors: string[] };
+
+// Accepts an exported profile file or a bare clinic config of any version.
+// The result has no id, so saving it always creates a new profile.
+export function parseProfileFile(text: string): ProfileFileCheck {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ["The file is not valid JSON"] };
+  }
+
+  const wrapped =
+    typeof data === "object" &&
+    data !== null &&
+    (data as Partial<ClinicProfileFile>).kind === "clinic-profile";
+  const file = data as Partial<ClinicProfileFile>;
+  const check = parseClinicConfig(wrapped ? file.config : data);
+  if (!check.ok) return check;
+
+  const name =
+    wrapped && typeof file.name === "string" && file.name.trim()
+      ? file.name.trim()
+      : check.config.clinicName;
+  return {
+    ok: true,
+    profile: { ...blankProfile(), name, config: check.config },
+  };
+}
+
+// Same async shape as the persona and call history stores.
+export interface ClinicProfileStore {
+  list(): Promise<ClinicProfile[]>;
+  get(id: string): Promise<ClinicProfile | null>;
+  save(profile: ClinicProfile): Promise<ClinicProfile>;
+  remove(id: string): Promise<void>;
+  // The profile training calls use; the first one if none was chosen.
+  getActive(): Promise<ClinicProfile | null>;
+  setActive(id: string): Promise<void>;
+}
+
+// Profiles live on the server (/api/clinics), so a VA sees the clinics their
+// trainer set up; only trainers can change them. Which one is active is a
+// choice for this browser.
+export function createApiClinicProfileStore(
+  activeKey = "activeClinicProfileId"
+): ClinicProfileStore {
+  let uploaded: Promise<void> | null = null;
+
+  async function list() {
+    uploaded ??= uploadLocalProfiles(activeKey);
+    await uploaded;
+    const data = await apiRequest<{ profiles: ClinicProfile[] }>(
+      "/api/clinics"
+    );
+    return data.profiles;
+  }
+
+  return {
+    list,
+    async get(id) {
+      const res = await fetch(`/api/clinics/${encodeURIComponent(id)}`);
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(await readApiError(res));
+      return ((await res.json()) as { profile: ClinicProfile }).profile;
+    },
+    async save(profile) {
+      const body = { name: profile.name, config: profile.config };
+      const data = await apiRequest<{ profile: ClinicProfile }>(
+        profile.id
+          ? `/api/clinics/${encodeURIComponent(profile.id)}`
+          : "/api/clinics",
+        profile.id ? "PUT" : "POST",
+        body
+      );
+      return data.profile;
+    },
+    async remove(id) {
+      await apiRequest(`/api/clinics/${encodeURIComponent(id)}`, "DELETE");
+      if (window.localStorage.getItem(activeKey) === id) {
+        window.localStorage.removeItem(activeKey);
+      }
+    },
+    async getActive() {
+      const profiles = await list();
+      const activeId = window.localStorage.getItem(activeKey);
+      return profiles.find((p) => p.id === activeId) ?? profiles[0] ?? null;
+    },
+    async setActive(id) {
+      window.localStorage.setItem(activeKey, id);
+    },
+  };
+}
+
+// Profiles kept in this browser before they moved to the server, including
+// the single config from before profiles. A trainer's browser uploads them
+// once; anyone else's keeps them until a trainer signs in there.
+const LOCAL_PROFILES_KEY = "clinicProfiles";
+
+function readLocalProfiles(): ClinicProfile[] {
+  const stored = window.localStorage.getItem(LOCAL_PROFILES_KEY);
+  const legacy = window.localStorage.getItem(LEGACY_CONFIG_KEY);
+  try {
+    if (stored) return JSON.parse(stored) as ClinicProfile[];
+    if (legacy) {
+      const config: ClinicConfig = migrateClinicConfig(
+        JSON.parse(legacy) as ClinicConfigV1 | ClinicConfig
+      );
+      return [{ ...blankProfile(), name: config.clinicName, config }];
+    }
+  } catch (err) {
+    console.error("Failed to read clinic profiles saved in this browser", err);
+  }
+  return [];
+}
+
+async function uploadLocalProfiles(activeKey: string) {
+  if (typeof window === "undefined") return;
+  const remaining = readLocalProfiles();
+  try {
+    while (remaining.length > 0) {
+      const local = remaining[0];
+      const { profile } = await apiRequest<{ profile: ClinicProfile }>(
+        "/api/clinics",
+        "POST",
+        {
+          name: local.name || local.config.clinicName || "My clinic",
+          config: local.config,
+        }
+      );
+      // The server gives it a new id; keep it active if it was.
+      if (local.id && window.localStorage.getItem(activeKey) === local.id) {
+        window.localStorage.setItem(activeKey, profile.id);
+      }
+      remaining.shift();
+      window.localStorage.setItem(LOCAL_PROFILES_KEY, JSON.stringify(remaining));
+      window.localStorage.removeItem(LEGACY_CONFIG_KEY);
+    }
+    window.localStorage.removeItem(LOCAL_PROFILES_KEY);
+  } catch (err) {
+    console.warn("Clinic profiles saved in this browser were not uploaded", err);
+  }
+}
+
+export const clinicProfiles: ClinicProfileStore = createApiClinicProfileStore();
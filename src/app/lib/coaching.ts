@@ -0,0 +1,56 @@
+import type { ClinicConfig } from "../types/config";
+import type { CoachingTip } from "../types/coaching";
+import type { Persona } from "../types/persona";
+import { describeCallContext, describeClinic } from "./prompts";
+import { getScenarioGoal } from "./scenarios";
+
+// The coach sees who the caller is but not their hidden objections, so it
+// can't tip the VA off before the patient raises them.
+export function buildCoachingPrompt(clinic: ClinicConfig, persona: Persona) {
+  const goal = getScenarioGoal(persona.goalId);
+  const context = describeCallContext(persona);
+
+  return `
+You coach a virtual assistant (VA) who answers the phone for a chiropractic clinic, live during a practice call.
+
+Clinic facts (the only facts the VA may quote):
+${describeClinic(clinic)}
+
+Caller: ${persona.title} – ${persona.description}
+Call goal: ${goal.label}. ${goal.description}${
+    goal.direction === "outbound"
+      ? `\nThis is an outbound call: the VA phoned the patient.${context ? ` What the VA knows:\n${context}` : ""}`
+      : ""
+  }
+
+You will get the transcript so far. Look at the patient's latest line:
+- Name the objection or intent it raises in a few words.
+- Suggest 2–3 different things the VA could say next, written as the VA would say them, each one or two sentences, moving the call toward the goal.
+- Never invent prices, services or policies that are not in the clinic facts.
+
+Reply with JSON only, in this shape:
+{"intent": "short label", "objection": true or false, "suggestions": ["...", "..."]}
+`;
+}
+
+export function parseCoachingTip(raw: string): CoachingTip {
+  let data: Partial<Record<keyof CoachingTip, unknown>> = {};
+  try {
+    data = JSON.parse(raw);
+  } catch (err) {
+    console.error("Failed to parse coaching tip", err);
+  }
+
+  const suggestions = Array.isArray(data.suggestions)
+    ? data.suggestions.filter((s): s is string => typeof s === "string")
+    : [];
+
+  return {
+    intent:
+      typeof data.intent === "string" && data.intent.trim()
+        ? data.intent.trim()
+        : "General question",
+    objection: data.objection === true,
+    suggestions: suggestions.slice(0, 3),
+  };
+}
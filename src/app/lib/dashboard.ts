@@ -0,0 +1,142 @@
+import type { ScoreCategoryId } from "../types/score";
+import type { CallSession } from "../types/session";
+import { addDays, toDateKey } from "./calendar";
+import { missedScriptItems } from "./callScript";
+import { OUTCOME_LABELS } from "./scenarios";
+import { SCORE_CATEGORIES } from "./scoring";
+
+// Progress numbers for the manager dashboard, worked out from saved calls.
+// "Mode" is the caller persona, the name the train page's URL started with.
+
+export type CallStats = {
+  calls: number;
+  scored: number;
+  averageScore: number | null; // overall, 0–100
+  categoryAverages: Record<ScoreCategoryId, number | null>; // 0–10
+  bookingRate: number | null; // share of calls that ended in a booking, 0–1
+  missedItems: { label: string; count: number }[]; // most often missed first
+};
+
+function average(values: number[]) {
+  return values.length === 0
+    ? null
+    : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function callStats(sessions: CallSession[]): CallStats {
+  const scorecards = sessions.flatMap((s) => (s.scorecard ? [s.scorecard] : []));
+
+  const missed = new Map<string, number>();
+  for (const session of sessions) {
+    for (const item of missedScriptItems(session.checklist ?? [])) {
+      missed.set(item.label, (missed.get(item.label) ?? 0) + 1);
+    }
+  }
+
+  return {
+    calls: sessions.length,
+    scored: scorecards.length,
+    averageScore: average(scorecards.map((s) => s.overall)),
+    categoryAverages: Object.fromEntries(
+      SCORE_CATEGORIES.map(({ id }) => [
+        id,
+        average(scorecards.map((s) => s.categories[id].score)),
+      ])
+    ) as Record<ScoreCategoryId, number | null>,
+    bookingRate: average(
+      sessions.map((s) => (s.outcome.status === "booked" ? 1 : 0))
+    ),
+    missedItems: [...missed]
+      .map(([label, count]) => ({ label, count }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+  };
+}
+
+// Calls from before accounts have no VA; they are grouped together.
+export const NO_ACCOUNT = { id: "", name: "No account" };
+
+export function vaOf(session: CallSession) {
+  return session.trainee ?? NO_ACCOUNT;
+}
+
+export type StatsGroup = { id: string; label: string; stats: CallStats };
+
+export function groupStats(
+  sessions: CallSession[],
+  by: "va" | "mode"
+): StatsGroup[] {
+  const groups = new Map<string, { label: string; calls: CallSession[] }>();
+  for (const session of sessions) {
+    const { id, label } =
+      by === "va"
+        ? { id: vaOf(session).id, label: vaOf(session).name }
+        : { id: session.persona.id, label: session.persona.title };
+    const group = groups.get(id) ?? { label, calls: [] };
+    group.calls.push(session);
+    groups.set(id, group);
+  }
+  return [...groups]
+    .map(([id, { label, calls }]) => ({ id, label, stats: callStats(calls) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+// The Monday of the call's week, as YYYY-MM-DD in local time.
+export function weekOf(iso: string) {
+  const date = new Date(iso);
+  return addDays(toDateKey(date), -((date.getDay() + 6) % 7));
+}
+
+export type TrendPoint = { week: string; stats: CallStats };
+
+// One point per week that had calls, oldest first.
+export function weeklyTrend(sessions: CallSession[]): TrendPoint[] {
+  const weeks = new Map<string, CallSession[]>();
+  for (const session of sessions) {
+    const week = weekOf(session.startedAt);
+    weeks.set(week, [...(weeks.get(week) ?? []), session]);
+  }
+  return [...weeks]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, calls]) => ({ week, stats: callStats(calls) }));
+}
+
+function csvCell(value: string | number | null | undefined) {
+  let text = value === null || value === undefined ? "" : String(value);
+  // Names and titles are typed by users; a leading = + - or @ would make
+  // the spreadsheet run the cell as a formula.
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per call, for spreadsheets.
+export function callsToCsv(sessions: CallSession[]) {
+  const header = [
+    "Date",
+    "VA",
+    "Mode",
+    "Clinic",
+    "Input",
+    "Outcome",
+    "Booked slot",
+    "Overall score",
+    ...SCORE_CATEGORIES.map(({ label }) => label),
+    "Missed script items",
+    "Call id",
+  ];
+  const rows = sessions.map((s) => [
+    s.startedAt,
+    vaOf(s).name,
+    s.persona.title,
+    s.clinic.clinicName,
+    s.inputMode,
+    OUTCOME_LABELS[s.outcome.status],
+    s.outcome.bookedSlot,
+    s.scorecard?.overall,
+    ...SCORE_CATEGORIES.map(({ id }) => s.scorecard?.categories[id].score),
+    missedScriptItems(s.checklist ?? [])
+      .map((item) => item.label)
+      .join("; "),
+    s.id,
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
@@ -0,0 +1,246 @@
+import type { ClinicConfig, ClinicService } from "../types/config";
+import type { Turn } from "../types/call";
+import type { Discrepancy } from "../types/factCheck";
+import {
+  DAY_NAMES,
+  findDays,
+  isOpenAt,
+  isScheduleEmpty,
+  parseOfficeHours,
+  toMinutes,
+  type DayId,
+  type WeeklySchedule,
+} from "./officeHours";
+
+// Rule-based, so it runs the same way in the browser (live flags while the
+// call is going) and on the server (the discrepancy list used for scoring).
+
+const NEGATION_RE =
+  /\b(not|don't|dont|do not|doesn't|does not|no longer|aren't|isn't|never|closed|unfortunately)\b/i;
+
+const SCHEDULING_RE =
+  /\b(open|opens|close|closes|hours|appointment|come in|book|schedule|available|slot|opening|get you in|see you)\b/i;
+
+const PRICE_RE =
+  /(not\s+)?(?:\$\s?(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)|\b(\d{1,4}(?:\.\d{2})?)\s*(?:dollars|bucks)\b)/gi;
+
+const FREE_VISIT_RE =
+  /\b(first|initial|new patient)\b.*\b(visit|exam|consult|consultation|appointment)\b.*\bfree\b|\bfree\b.*\b(visit|exam|consult|consultation)\b/i;
+
+const TIME_RE =
+  /(?:\b(at|until|till|til|from|by|after|before|around|between)\s+)?\b(\d{1,2})(?::(\d{2}))?(?![\d,])\s*(a\.?m\.?|p\.?m\.?|o'?clock)?(?!\s*(?:minutes?|mins?|hours?|hrs?|days?|weeks?|months?|years?|visits?|sessions?|times?|treatments?|people|patients?|%|percent|dollars|bucks))/gi;
+
+const STREET_RE =
+  /\b(\d{2,6})\s+((?:[A-Z][a-z]+\s+){1,3})(Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Way|Court|Ct|Highway|Hwy|Parkway|Pkwy)\b/g;
+
+// Therapies callers often ask about. If the VA offers one, some service in
+// the clinic's list has to match it.
+const SERVICE_CHECKS: { label: string; pattern: RegExp }[] = [
+  { label: "spinal decompression", pattern: /decompression/i },
+  { label: "Class IV laser therapy", pattern: /\blaser\b/i },
+  { label: "shockwave therapy", pattern: /shock\s?-?wave/i },
+];
+
+function splitSentences(text: string) {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/[^a-z0-9 ]/g, " ").replace(/\s+/g, " ");
+}
+
+function mentionsService(sentence: string, service: ClinicService) {
+  const name = normalize(service.name).trim();
+  return name.length > 0 && normalize(sentence).includes(name);
+}
+
+// A price next to a service's name must be that service's price; any other
+// price must be the first visit or one of the listed services.
+function checkPrices(sentence: string, clinic: ClinicConfig): Discrepancy[] {
+  const expected = `$${clinic.firstVisitCost}`;
+  const found: Discrepancy[] = [];
+  const service = clinic.services.find(
+    (s) => s.price !== null && mentionsService(sentence, s)
+  );
+  const knownPrices = [
+    clinic.firstVisitCost,
+    ...clinic.services.map((s) => s.price),
+  ];
+
+  for (const match of sentence.matchAll(PRICE_RE)) {
+    if (match[1]) continue; // "not $200" is a correction, not a claim
+    const amount = Number((match[2] ?? match[3]).replace(/,/g, ""));
+    const said = `$${amount}`;
+
+    if (service) {
+      if (amount === service.price || amount === clinic.firstVisitCost) continue;
+      const servicePrice = `$${service.price}`;
+      found.push({
+        turnIndex: -1,
+        field: "servicePrice",
+        said,
+        expected: servicePrice,
+        message: `VA said ${said} for ${service.name}, clinic config says ${servicePrice}`,
+      });
+      continue;
+    }
+
+    if (knownPrices.includes(amount)) continue;
+    found.push({
+      turnIndex: -1,
+      field: "firstVisitCost",
+      said,
+      expected,
+      message: `VA said ${said}, clinic config says ${expected}`,
+    });
+  }
+
+  if (clinic.firstVisitCost > 0 && FREE_VISIT_RE.test(sentence)) {
+    found.push({
+      turnIndex: -1,
+      field: "firstVisitCost",
+      said: "free",
+      expected,
+      message: `VA said the first visit is free, clinic config says ${expected}`,
+    });
+  }
+
+  return found;
+}
+
+function checkServices(sentence: string, clinic: ClinicConfig): Discrepancy[] {
+  if (NEGATION_RE.test(sentence)) return [];
+  return SERVICE_CHECKS.filter(
+    ({ pattern }) =>
+      pattern.test(sentence) &&
+      !clinic.services.some(
+        (s) => pattern.test(s.name) || pattern.test(s.description)
+      )
+  ).map(({ label }) => ({
+    turnIndex: -1,
+    field: "services" as const,
+    said: label,
+    expected: "not offered",
+    message: `VA offered ${label}, clinic config says it is not offered`,
+  }));
+}
+
+function checkHours(
+  sentence: string,
+  clinic: ClinicConfig,
+  schedule: WeeklySchedule
+): Discrepancy[] {
+  if (!SCHEDULING_RE.test(sentence) || NEGATION_RE.test(sentence)) return [];
+
+  const found: Discrepancy[] = [];
+  const expected = clinic.officeHours;
+  const days = findDays(sentence);
+  const openDays = days.filter((d) => schedule[d].length > 0);
+
+  for (const day of days) {
+    if (schedule[day].length > 0) continue;
+    found.push({
+      turnIndex: -1,
+      field: "officeHours",
+      said: DAY_NAMES[day],
+      expected,
+      message: `VA said ${DAY_NAMES[day]}, clinic config says ${expected}`,
+    });
+  }
+
+  for (const match of sentence.matchAll(TIME_RE)) {
+    const [text, lead, hour, minute, meridiem] = match;
+    if (!lead && !meridiem) continue;
+    const h = Number(hour);
+    const m = Number(minute || 0);
+    if (h < 1 || h > 12 || m > 59) continue;
+
+    // Without am/pm, accept the time if either reading is inside hours.
+    const explicit = meridiem && !/clock/i.test(meridiem);
+    const candidates = explicit
+      ? [toMinutes(h, m, meridiem)]
+      : [toMinutes(h, m, "am"), toMinutes(h, m, "pm")];
+    const searchDays: DayId[] | undefined =
+      openDays.length > 0 ? openDays : undefined;
+
+    if (candidates.some((t) => isOpenAt(schedule, t, searchDays))) continue;
+
+    const said = text.trim().replace(/\.$/, "");
+    found.push({
+      turnIndex: -1,
+      field: "officeHours",
+      said,
+      expected,
+      message: `VA said "${said}", clinic config says ${expected}`,
+    });
+  }
+
+  return found;
+}
+
+function checkAddress(sentence: string, clinic: ClinicConfig): Discrepancy[] {
+  const address = normalize(clinic.address);
+  if (!address.trim()) return [];
+
+  const found: Discrepancy[] = [];
+  for (const match of sentence.matchAll(STREET_RE)) {
+    const [said, number, street] = match;
+    const words = normalize(street).trim().split(" ");
+    const matches =
+      new RegExp(`\\b${number}\\b`).test(address) &&
+      words.every((w) => address.includes(w));
+    if (matches) continue;
+    found.push({
+      turnIndex: -1,
+      field: "address",
+      said,
+      expected: clinic.address,
+      message: `VA said ${said}, clinic config says ${clinic.address}`,
+    });
+  }
+  return found;
+}
+
+export function checkTurnFacts(
+  text: string,
+  clinic: ClinicConfig,
+  schedule: WeeklySchedule = parseOfficeHours(clinic.officeHours)
+): Discrepancy[] {
+  const found: Discrepancy[] = [];
+  for (const sentence of splitSentences(text)) {
+    found.push(
+      ...checkPrices(sentence, clinic),
+      ...checkServices(sentence, clinic),
+      ...checkAddress(sentence, clinic)
+    );
+    if (!isScheduleEmpty(schedule)) {
+      found.push(...checkHours(sentence, clinic, schedule));
+    }
+  }
+
+  const seen = new Set<string>();
+  return found.filter((d) => {
+    const key = `${d.field}:${d.said.toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function checkCallFacts(
+  turns: Turn[],
+  clinic: ClinicConfig
+): Discrepancy[] {
+  const schedule = parseOfficeHours(clinic.officeHours);
+  return turns.flatMap((turn, turnIndex) =>
+    turn.role === "staff"
+      ? checkTurnFacts(turn.text, clinic, schedule).map((d) => ({
+          ...d,
+          turnIndex,
+        }))
+      : []
+  );
+}
@@ -0,0 +1,61 @@
+import type { Turn } from "../types/call";
+import type { PatientMood } from "../types/scenario";
+
+export const MOOD_KEYS = ["trust", "frustration", "interest"] as const;
+
+export const MOOD_LABELS: Record<keyof PatientMood, string> = {
+  trust: "Trust",
+  frustration: "Frustration",
+  interest: "Interest in booking",
+};
+
+// The patient hangs up once either of these is reached.
+export const HANG_UP_FRUSTRATION = 9;
+export const HANG_UP_TRUST = 1;
+
+function clamp(value: number) {
+  return Math.min(10, Math.max(0, Math.round(value)));
+}
+
+// Reads a mood from model output. Missing or malformed numbers keep their
+// previous value, so one sloppy reply doesn't reset the patient.
+export function parseMood(
+  value: unknown,
+  previous: PatientMood | null
+): PatientMood | null {
+  if (typeof value !== "object" || value === null) return previous;
+  const data = value as Record<string, unknown>;
+  if (!MOOD_KEYS.some((key) => typeof data[key] === "number")) return previous;
+
+  const fallback = previous ?? { trust: 5, frustration: 5, interest: 5 };
+  return {
+    trust: typeof data.trust === "number" ? clamp(data.trust) : fallback.trust,
+    frustration:
+      typeof data.frustration === "number"
+        ? clamp(data.frustration)
+        : fallback.frustration,
+    interest:
+      typeof data.interest === "number" ? clamp(data.interest) : fallback.interest,
+  };
+}
+
+// The patient's mood going into their next reply, or null before the
+// first one.
+export function currentMood(turns: Turn[]): PatientMood | null {
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const mood = turns[i].mood;
+    if (mood) return mood;
+  }
+  return null;
+}
+
+export function describeMood(mood: PatientMood) {
+  return `trust ${mood.trust}/10, frustration ${mood.frustration}/10, interest ${mood.interest}/10`;
+}
+
+// One point per patient reply that carried a mood.
+export function moodTimeline(turns: Turn[]) {
+  return turns.flatMap((turn, turnIndex) =>
+    turn.role === "patient" && turn.mood ? [{ turnIndex, mood: turn.mood }] : []
+  );
+}
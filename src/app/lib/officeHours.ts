@@ -0,0 +1,202 @@
+// Parses the free-text `officeHours` field (e.g. "Mon–Thu 9–1 & 3–6, Fri 9–1",
+// "Weekdays 9am to 5pm", "M/W/F 9–6") into a structured weekly schedule.
+// Times are minutes after midnight.
+
+export type DayId = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday
+
+export type TimeRange = {
+  start: number;
+  end: number;
+};
+
+export type WeeklySchedule = Record<DayId, TimeRange[]>;
+
+export const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+] as const;
+
+const DAY_PREFIXES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const DAY =
+  "(sun|mon|tue|wed|thu|fri|sat)(?:urday|nesday|rsday|sday|day|rs|r|s)?s?\\b\\.?";
+const DAY_RANGE_RE = new RegExp(
+  `\\b${DAY}(?:\\s*(?:-|–|—|to|through|thru)\\s*${DAY})?`,
+  "gi"
+);
+
+// Day groups written as words, spelled out as ranges.
+const DAY_GROUPS: [RegExp, string][] = [
+  [/\bweekdays?\b/gi, "Mon-Fri"],
+  [/\bweekends?\b/gi, "Sat-Sun"],
+  [/\b(?:daily|every day|7 days(?: a week)?)\b/gi, "Sun-Sat"],
+];
+
+// Single-letter days ("M-F", "M/W/F", "T/Th", "F"). Case-sensitive, so
+// only capital letters count as days.
+const LETTER_DAYS: Record<string, string> = {
+  M: "Mon",
+  T: "Tue",
+  Tu: "Tue",
+  W: "Wed",
+  R: "Thu",
+  Th: "Thu",
+  F: "Fri",
+  S: "Sat",
+  Sa: "Sat",
+  Su: "Sun",
+};
+const LETTER_DAY = "(?:Su|Sa|Th|Tu|M|T|W|R|F|S)";
+const LETTER_DAYS_RE = new RegExp(
+  `\\b${LETTER_DAY}(?:\\s*[/&–—-]\\s*${LETTER_DAY})*\\b`,
+  "g"
+);
+
+const MERIDIEM = "(a\\.?m\\.?|p\\.?m\\.?)";
+const TIME_RANGE_RE = new RegExp(
+  `(\\d{1,2})(?::(\\d{2}))?\\s*${MERIDIEM}?\\s*(?:-|–|—|to)\\s*(\\d{1,2})(?::(\\d{2}))?\\s*${MERIDIEM}?`,
+  "gi"
+);
+
+export function emptySchedule(): WeeklySchedule {
+  return { 0: [], 1: [], 2: [], 3: [], 4: [], 5: [], 6: [] };
+}
+
+export function dayFromName(name: string): DayId | null {
+  const index = DAY_PREFIXES.indexOf(name.slice(0, 3).toLowerCase());
+  return index === -1 ? null : (index as DayId);
+}
+
+// Hours written without am/pm follow normal clinic hours:
+// 7–11 are mornings, 12 is noon and 1–6 are afternoons.
+export function toMinutes(hour: number, minute: number, meridiem?: string) {
+  let h = hour % 12;
+  const m = meridiem?.toLowerCase().replace(/\./g, "");
+  if (m === "pm") h += 12;
+  else if (!m && hour >= 1 && hour <= 6) h += 12;
+  else if (!m && hour === 12) h = 12;
+  return h * 60 + minute;
+}
+
+export function formatMinutes(minutes: number) {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  const suffix = h >= 12 ? "pm" : "am";
+  const hour12 = h % 12 === 0 ? 12 : h % 12;
+  return `${hour12}:${m.toString().padStart(2, "0")}${suffix}`;
+}
+
+function spellOutDays(text: string) {
+  const spelled = DAY_GROUPS.reduce(
+    (result, [re, days]) => result.replace(re, days),
+    text
+  );
+  return spelled.replace(LETTER_DAYS_RE, (list) =>
+    list.replace(new RegExp(LETTER_DAY, "g"), (letter) => LETTER_DAYS[letter])
+  );
+}
+
+function expandDays(text: string): DayId[] {
+  const days: DayId[] = [];
+  for (const match of spellOutDays(text).matchAll(DAY_RANGE_RE)) {
+    const from = dayFromName(match[1]);
+    const to = match[2] ? dayFromName(match[2]) : from;
+    if (from === null || to === null) continue;
+    let d = from;
+    days.push(d);
+    while (d !== to) {
+      d = ((d + 1) % 7) as DayId;
+      days.push(d);
+    }
+  }
+  return days;
+}
+
+function parseTimeRanges(text: string): TimeRange[] {
+  const ranges: TimeRange[] = [];
+  for (const match of text.matchAll(TIME_RANGE_RE)) {
+    const [, sh, sm, smer, eh, em, emer] = match;
+    // "9-6pm" means 9am: only borrow the end meridiem when it keeps start < end.
+    let start = toMinutes(Number(sh), Number(sm || 0), smer);
+    const end = toMinutes(Number(eh), Number(em || 0), emer);
+    if (!smer && emer) {
+      const borrowed = toMinutes(Number(sh), Number(sm || 0), emer);
+      if (borrowed < end) start = borrowed;
+    }
+    if (start < end) ranges.push({ start, end });
+  }
+  return ranges;
+}
+
+export function parseOfficeHours(text: string): WeeklySchedule {
+  const schedule = emptySchedule();
+  let pendingDays: DayId[] = [];
+  let lastDays: DayId[] = [];
+
+  for (const segment of text.split(/[,;\n]+/)) {
+    if (/closed/i.test(segment)) {
+      pendingDays = [];
+      lastDays = [];
+      continue;
+    }
+
+    // Times are stripped first so "9–1" is never read as a day range.
+    const ranges = parseTimeRanges(segment);
+    let days = [
+      ...pendingDays,
+      ...expandDays(segment.replace(TIME_RANGE_RE, " ")),
+    ];
+
+    // "Mon, Wed, Fri 9–6": days without times wait for the next segment.
+    if (ranges.length === 0) {
+      pendingDays = days;
+      continue;
+    }
+    pendingDays = [];
+
+    // "Mon–Fri 9–12, 2–6": times on their own belong to the days before.
+    if (days.length === 0) days = lastDays;
+    lastDays = days;
+
+    for (const day of days) {
+      schedule[day].push(...ranges);
+    }
+  }
+
+  for (const day of Object.keys(schedule)) {
+    schedule[Number(day) as DayId].sort((a, b) => a.start - b.start);
+  }
+  return schedule;
+}
+
+export function isScheduleEmpty(schedule: WeeklySchedule) {
+  return Object.values(schedule).every((ranges) => ranges.length === 0);
+}
+
+export function isOpenAt(
+  schedule: WeeklySchedule,
+  minutes: number,
+  days: DayId[] = [0, 1, 2, 3, 4, 5, 6]
+) {
+  return days.some((day) =>
+    schedule[day].some((r) => minutes >= r.start && minutes <= r.end)
+  );
+}
+
+// Conversation text only counts full day names: "sat" or "wed" in a
+// sentence is far more likely to be a verb than a weekday.
+const FULL_DAY_RE = new RegExp(`\\b(${DAY_NAMES.join("|")})s?\\b`, "gi");
+
+export function findDays(text: string): DayId[] {
+  const days: DayId[] = [];
+  for (const match of text.matchAll(FULL_DAY_RE)) {
+    const day = dayFromName(match[1]);
+    if (day !== null && !days.includes(day)) days.push(day);
+  }
+  return days;
+}
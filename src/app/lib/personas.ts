@@ -0,0 +1,255 @@
+import type { Persona } from "../types/persona";
+import { newId } from "./ids";
+import { DEFAULT_GOAL_ID } from "./scenarios";
+
+export const DEFAULT_PERSONA_ID = "easy";
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: "easy",
+    title: "Easy",
+    description:
+      "Friendly, curious caller who wants information and is easy to book.",
+    builtIn: true,
+    goalId: "book-new-patient-exam",
+    name: "Linda Harper",
+    age: 42,
+    chiefComplaint: "Lower back pain after a weekend of gardening",
+    painDuration: "About two weeks",
+    insurance: "Blue Cross PPO, but happy to pay out of pocket",
+    personality: "Warm, chatty and curious. Answers questions fully.",
+    hiddenObjections: ["A little nervous the adjustment will hurt"],
+    convinceBy:
+      "A friendly explanation of what happens at the first visit and a specific time to come in.",
+    availability: "Any weekday; mornings suit her best",
+  },
+  {
+    id: "challenging",
+    title: "Challenging",
+    description:
+      "Busy, distracted caller with objections about time, money, or commitment.",
+    builtIn: true,
+    goalId: "book-new-patient-exam",
+    name: "Marcus Reed",
+    age: 35,
+    chiefComplaint: "Neck and shoulder tension from long days at a desk",
+    painDuration: "Three months, getting worse",
+    insurance: "High-deductible plan, pays most things out of pocket",
+    personality:
+      "Busy and distracted, multitasking during the call. Short answers, interrupts.",
+    hiddenObjections: [
+      "Doesn't think he has time for repeat visits",
+      "Worried the total cost will add up",
+    ],
+    convinceBy:
+      "Respecting his time, a clear first-visit price and an early-morning or lunchtime slot.",
+    availability: "Weekdays before 9:30am or between 12 and 1",
+  },
+  {
+    id: "skeptical",
+    title: "Skeptical",
+    description:
+      "Questioning your methods, wants proof and reassurance before scheduling.",
+    builtIn: true,
+    goalId: "book-new-patient-exam",
+    name: "Diane Foster",
+    age: 58,
+    chiefComplaint: "Sciatica running down the left leg",
+    painDuration: "Over a year, on and off",
+    insurance: "Medicare with a supplement plan",
+    personality:
+      "Analytical and guarded. Had a bad experience with another chiropractor.",
+    hiddenObjections: [
+      "Doubts chiropractic is backed by evidence",
+      "Afraid of being locked into a long care plan",
+    ],
+    convinceBy:
+      "A clear explanation of the exam, the doctor's experience with sciatica and no pressure to commit to a plan.",
+    availability: "Weekday mornings, but not Mondays (physio)",
+  },
+  {
+    id: "creepy",
+    title: "Creepy",
+    description:
+      "Inappropriate, boundary-pushing caller. Good for teaching VAs to set boundaries.",
+    builtIn: true,
+    goalId: "book-new-patient-exam",
+    name: "Kevin",
+    age: 29,
+    chiefComplaint: "Vague back soreness",
+    painDuration: "A few days",
+    insurance: "Not sure",
+    personality:
+      "Overly familiar and boundary-pushing. Asks the VA personal questions and makes suggestive comments.",
+    hiddenObjections: ["Not really interested in care"],
+    convinceBy:
+      "Only books if the VA stays professional and sets firm, polite boundaries.",
+    availability: "Says any time suits him",
+  },
+  {
+    id: "no-show",
+    title: "No-Show",
+    description:
+      "Missed their first appointment and is calling back. Win them back without blame.",
+    builtIn: true,
+    goalId: "recover-no-show",
+    name: "Tanya Brooks",
+    age: 46,
+    chiefComplaint: "Mid-back stiffness and headaches",
+    painDuration: "Two months",
+    insurance: "Aetna, unsure what chiropractic coverage looks like",
+    personality:
+      "Apologetic but defensive. Juggling work and kids, easily feels judged.",
+    hiddenObjections: [
+      "Worried she'll be charged a no-show fee",
+      "Not sure she can find time again",
+    ],
+    convinceBy:
+      "No guilt trip, reassurance about the missed visit and a time that fits around school pick-up.",
+    availability: "Between 9:30am and 2:30pm around the school run, not Fridays",
+  },
+  {
+    id: "web-lead",
+    title: "Web Lead",
+    description:
+      "Outbound: filled in an online form days ago and has half forgotten. Call them back.",
+    builtIn: true,
+    goalId: "follow-up-lead",
+    name: "Chris Navarro",
+    age: 38,
+    chiefComplaint: "Low back pain that flares up after runs",
+    painDuration: "On and off for six months",
+    insurance: "United Healthcare PPO",
+    personality:
+      "Friendly but busy. Screens unknown numbers and is short until they know who's calling.",
+    hiddenObjections: ["Thinks stretching on their own might be enough"],
+    convinceBy:
+      "Being reminded why they reached out, a quick explanation of the first visit and an evening slot.",
+    availability: "Weekdays after 4pm",
+    callContext: { leadSource: "Website contact form, three days ago" },
+  },
+  {
+    id: "missed-appointment",
+    title: "Missed Appointment",
+    description:
+      "Outbound: skipped their exam yesterday without calling. Get them rescheduled.",
+    builtIn: true,
+    goalId: "reschedule-no-show",
+    name: "Paul Okafor",
+    age: 51,
+    chiefComplaint: "Stiff neck and tingling in the right hand",
+    painDuration: "About six weeks",
+    insurance: "Cigna, not sure about chiropractic coverage",
+    personality:
+      "Embarrassed and a little defensive. Says work got in the way.",
+    hiddenObjections: ["Worried about being charged for the missed visit"],
+    convinceBy:
+      "No blame, a clear answer about any fee and a time that won't clash with work again.",
+    availability: "Late afternoons, once work finishes at 3pm",
+    callContext: { missedAppointment: "New-patient exam yesterday at 4pm" },
+  },
+  {
+    id: "lapsed-patient",
+    title: "Lapsed Patient",
+    description:
+      "Outbound: finished a care plan last year and never came back. Reactivate them.",
+    builtIn: true,
+    goalId: "reactivate-patient",
+    name: "Janet Wu",
+    age: 63,
+    chiefComplaint: "Hip and lower back aches are creeping back",
+    painDuration: "A few weeks this time",
+    insurance: "Medicare with a supplement plan",
+    personality:
+      "Polite and chatty once she knows it's the clinic. Assumes she's fine without care.",
+    hiddenObjections: ["Thinks she'd be starting a long plan all over again"],
+    convinceBy:
+      "Genuine interest in how she's been and a single check-up visit with no pressure.",
+    availability: "Tuesday or Thursday mornings",
+    callContext: { lastVisit: "Last March, after finishing a twelve-visit plan" },
+  },
+];
+
+export function blankPersona(): Persona {
+  return {
+    id: "",
+    title: "",
+    description: "",
+    builtIn: false,
+    goalId: DEFAULT_GOAL_ID,
+    name: "",
+    age: 40,
+    chiefComplaint: "",
+    painDuration: "",
+    insurance: "",
+    personality: "",
+    hiddenObjections: [],
+    convinceBy: "",
+  };
+}
+
+export function clonePersona(persona: Persona): Persona {
+  return {
+    ...persona,
+    id: "",
+    title: `${persona.title} (copy)`,
+    builtIn: false,
+    hiddenObjections: [...persona.hiddenObjections],
+    ...(persona.callContext && { callContext: { ...persona.callContext } }),
+  };
+}
+
+// Built-in personas ship with the app; custom ones are stored behind the same
+// kind of async interface as call history so they can move server-side later.
+export interface PersonaStore {
+  list(): Promise<Persona[]>;
+  get(id: string): Promise<Persona | null>;
+  save(persona: Persona): Promise<Persona>;
+  remove(id: string): Promise<void>;
+}
+
+export function createLocalStoragePersonaStore(
+  key = "customPersonas"
+): PersonaStore {
+  function read(): Persona[] {
+    if (typeof window === "undefined") return [];
+    const stored = window.localStorage.getItem(key);
+    if (!stored) return [];
+    try {
+      return JSON.parse(stored) as Persona[];
+    } catch (err) {
+      console.error(`Failed to parse ${key}`, err);
+      return [];
+    }
+  }
+
+  function write(personas: Persona[]) {
+    window.localStorage.setItem(key, JSON.stringify(personas));
+  }
+
+  return {
+    async list() {
+      return [...BUILT_IN_PERSONAS, ...read()];
+    },
+    async get(id) {
+      return (
+        BUILT_IN_PERSONAS.find((p) => p.id === id) ??
+        read().find((p) => p.id === id) ??
+        null
+      );
+    },
+    async save(persona) {
+      if (persona.builtIn) {
+        throw new Error("Built-in personas cannot be edited. Clone it instead.");
+      }
+      const saved = { ...persona, id: persona.id || newId() };
+      write([...read().filter((p) => p.id !== saved.id), saved]);
+      return saved;
+    },
+    async remove(id) {
+      write(read().filter((p) => p.id !== id));
+    },
+  };
+}
+
+export const personaStore: PersonaStore = createLocalStoragePersonaStore();
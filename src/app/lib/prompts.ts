@@ -0,0 +1,126 @@
+import type { ClinicConfig } from "../types/config";
+import type { Persona } from "../types/persona";
+import { describeDate, toDateKey } from "./calendar";
+import { formatDuration, LONG_HOLD_MS } from "./callActions";
+import { HANG_UP_FRUSTRATION, HANG_UP_TRUST } from "./mood";
+import { CALL_CONTEXT_FIELDS, getScenarioGoal } from "./scenarios";
+
+// Shared prompt fragments. Every prompt that mentions the clinic or the
+// patient builds it from here so the model always sees the same facts.
+
+function formatPrice(price: number | null) {
+  return price === null ? "price not quoted by phone" : `$${price}`;
+}
+
+export function describeClinic(clinic: ClinicConfig) {
+  const services = clinic.services.length
+    ? clinic.services
+        .map(
+          (s) =>
+            `  - ${s.name} (${formatPrice(s.price)})${s.description ? `: ${s.description}` : ""}`
+        )
+        .join("\n")
+    : "  - Chiropractic care only";
+  const insurance = clinic.insurance.accepted.length
+    ? clinic.insurance.accepted.join(", ")
+    : "none listed";
+  const policies = clinic.policies
+    .map((p) => `\n  - ${p.title}: ${p.details}`)
+    .join("");
+  const faqs = clinic.faqs
+    .map((f) => `\n  - Q: ${f.question}\n    A: ${f.answer}`)
+    .join("");
+
+  return `- Name: ${clinic.clinicName}
+- Doctor: ${clinic.doctorName}
+- First visit cost: $${clinic.firstVisitCost}
+- Address: ${clinic.address}
+- Office hours: ${clinic.officeHours}
+- Services:
+${services}
+- Insurance accepted: ${insurance}${clinic.insurance.notes ? ` (${clinic.insurance.notes})` : ""}
+- Policies:${policies || " none listed"}
+- FAQs:${faqs || " none listed"}`;
+}
+
+// Only the fields the persona's call type uses, one line each.
+export function describeCallContext(persona: Persona) {
+  return getScenarioGoal(persona.goalId)
+    .contextFields.filter((field) => persona.callContext?.[field])
+    .map(
+      (field) =>
+        `- ${CALL_CONTEXT_FIELDS[field].label}: ${persona.callContext?.[field]}`
+    )
+    .join("\n");
+}
+
+export function describePersona(persona: Persona) {
+  const objections = persona.hiddenObjections.length
+    ? persona.hiddenObjections.join("; ")
+    : "none";
+  const context = describeCallContext(persona);
+
+  return `- Name: ${persona.name}
+- Age: ${persona.age}
+- Chief complaint: ${persona.chiefComplaint}
+- Had it for: ${persona.painDuration}
+- Insurance: ${persona.insurance}
+- Personality: ${persona.personality}
+- Hidden objections: ${objections}
+- What it takes to book: ${persona.convinceBy}${
+    persona.availability ? `\n- When they can come in: ${persona.availability}` : ""
+  }${context ? `\n${context}` : ""}`;
+}
+
+// `today` is the day of the call, so "tomorrow" and weekdays mean the same
+// to the patient as to the clinic's calendar.
+export function buildPatientSystemPrompt(
+  clinic: ClinicConfig,
+  persona: Persona,
+  today: Date
+) {
+  const goal = getScenarioGoal(persona.goalId);
+  const opening =
+    goal.direction === "outbound"
+      ? "You are simulating a patient who has just answered their phone. A chiropractic office is calling you, but you don't know who it is until the caller says so."
+      : "You are simulating a patient on a phone call with a chiropractic office.";
+  const outboundRule =
+    goal.direction === "outbound"
+      ? "\n- You picked up a call from a number you don't recognise: be a little guarded, and ask who is calling if they don't say. Your history with the clinic (above) is what you remember, vaguely."
+      : "";
+
+  return `
+${opening} Today is ${describeDate(toDateKey(today))}.
+
+Clinic:
+${describeClinic(clinic)}
+
+You are this patient:
+${describePersona(persona)}
+
+Your situation: ${goal.patientSituation}
+
+Rules:
+- Keep messages short (1–2 sentences).
+- You only reply as the patient.
+- No internal thoughts.
+- Stay in character. Only raise a hidden objection when the conversation gives you a reason to.
+- Ask the kind of questions real callers ask (insurance, prices, parking, what happens at the first visit, cancellations) when they fit your situation.
+- Only agree to book once the VA has done what it takes to convince you.
+- Only accept an appointment time you can actually make${persona.availability ? " (see when you can come in)" : ""} and that falls inside the clinic's office hours. Turn anything else down and say why, like a real caller would ("I can't do Wednesdays", "Aren't you closed on Saturdays?").${outboundRule}
+- The VA may put you on hold, transfer you to ${clinic.doctorName}, or offer to have the office call you back; a system note tells you when. React like a real caller: a short hold with a reason is fine, but a hold of ${formatDuration(LONG_HOLD_MS)} or more, or one with no explanation, annoys you and you say so. If you asked something only the doctor can answer, or feel brushed off by a vague callback, insist on talking to the doctor.
+
+Your mood is three numbers from 0 to 10:
+- trust: how much you believe this office can help and is being straight with you
+- frustration: how annoyed or impatient you are
+- interest: how keen you are to book
+Start from numbers that fit your personality and situation. After each VA line, update them: listening, empathy, clear and correct answers and respecting your time raise trust and interest and lower frustration; being dismissive, pushy, vague, wrong or talking over you does the opposite. Move them a little at a time (usually 0–2 points) unless the VA does something really good or bad. Let your mood shape how you talk. If frustration reaches ${HANG_UP_FRUSTRATION} or trust falls to ${HANG_UP_TRUST}, end the call.
+
+Reply with JSON only, in this shape, with "reply" always first:
+{"reply": "what you say out loud", "status": "engaged" | "booked" | "hung_up", "bookedSlot": "the day and time you agreed to" or null, "mood": {"trust": 0-10, "frustration": 0-10, "interest": 0-10}}
+
+- "booked": you have clearly agreed to a specific appointment day and time. Your reply wraps up the call.
+- "hung_up": you are ending the call without booking (the VA was rude, pushy or unhelpful, or you lost interest). Your reply is your last words.
+- "engaged": anything else.
+`;
+}
@@ -0,0 +1,241 @@
+import type { CallContext } from "../types/persona";
+import type {
+  CallOutcome,
+  CallStatus,
+  PatientMood,
+  PatientReplyMeta,
+  ScenarioGoal,
+  ScenarioGoalId,
+} from "../types/scenario";
+import { parseMood } from "./mood";
+
+export const DEFAULT_GOAL_ID: ScenarioGoalId = "book-new-patient-exam";
+
+export const SCENARIO_GOALS: ScenarioGoal[] = [
+  {
+    id: "book-new-patient-exam",
+    label: "Book a new-patient exam",
+    description:
+      "Turn a first-time caller into a booked new-patient exam with a specific day and time.",
+    direction: "inbound",
+    patientSituation:
+      "You have never been to this clinic. You found it online and are calling to ask about getting help.",
+    contextFields: [],
+    successCriteria: [
+      "Greets with the clinic name and their own name",
+      "Finds out what the caller is dealing with",
+      "Answers questions with correct clinic facts",
+      "Books a new-patient exam for a specific day and time",
+    ],
+  },
+  {
+    id: "recover-no-show",
+    label: "Recover a no-show",
+    description:
+      "Get a patient who missed their appointment back on the schedule without making them feel judged.",
+    direction: "inbound",
+    patientSituation:
+      "You booked a new-patient exam at this clinic last week but did not show up. The office left you a voicemail and you are calling back, a bit embarrassed and half expecting to be scolded.",
+    contextFields: [],
+    successCriteria: [
+      "Welcomes them back without blame",
+      "Addresses any worry about the missed visit or a fee",
+      "Rebooks the exam for a specific day and time",
+    ],
+  },
+  {
+    id: "follow-up-lead",
+    label: "Follow up a web lead",
+    description:
+      "Call back someone who asked about care online and turn the enquiry into a booked new-patient exam.",
+    direction: "outbound",
+    patientSituation:
+      "A while ago you left your details with this clinic asking about help with your pain, and you had half forgotten about it.",
+    contextFields: ["leadSource"],
+    successCriteria: [
+      "Says who they are, which clinic, and why they're calling",
+      "Mentions the enquiry the patient made",
+      "Finds out what made them reach out",
+      "Books a new-patient exam for a specific day and time",
+    ],
+  },
+  {
+    id: "reschedule-no-show",
+    label: "Reschedule a no-show",
+    description:
+      "Call a patient who missed their appointment and hasn't been in touch, and get them rescheduled.",
+    direction: "outbound",
+    patientSituation:
+      "You missed an appointment at this clinic and never called to cancel or rebook. You feel a bit awkward about it.",
+    contextFields: ["missedAppointment"],
+    successCriteria: [
+      "Says who they are and that they're calling about the missed appointment",
+      "Checks the patient is okay, with no guilt trip",
+      "Reschedules the visit for a specific day and time",
+    ],
+  },
+  {
+    id: "reactivate-patient",
+    label: "Reactivate a lapsed patient",
+    description:
+      "Call a former patient who stopped coming in and book them for a return visit.",
+    direction: "outbound",
+    patientSituation:
+      "You used to be a patient at this clinic but stopped going. You haven't thought about them in a while.",
+    contextFields: ["lastVisit"],
+    successCriteria: [
+      "Says who they are and why they're calling",
+      "Asks how the patient has been since their last visit",
+      "Connects any returning symptoms to coming back in",
+      "Books a return visit for a specific day and time",
+    ],
+  },
+];
+
+export const CALL_CONTEXT_FIELDS: Record<
+  keyof CallContext,
+  { label: string; placeholder: string }
+> = {
+  leadSource: {
+    label: "Lead source",
+    placeholder: "e.g. Facebook ad form, two days ago",
+  },
+  missedAppointment: {
+    label: "Missed appointment",
+    placeholder: "e.g. New-patient exam last Tuesday at 3pm",
+  },
+  lastVisit: {
+    label: "Last visit",
+    placeholder: "e.g. Last March, after finishing a six-week plan",
+  },
+};
+
+export function getScenarioGoal(id: string | undefined): ScenarioGoal {
+  return (
+    SCENARIO_GOALS.find((g) => g.id === id) ??
+    SCENARIO_GOALS.find((g) => g.id === DEFAULT_GOAL_ID)!
+  );
+}
+
+export function isTerminalStatus(
+  status: CallStatus
+): status is "booked" | "hung_up" {
+  return status === "booked" || status === "hung_up";
+}
+
+// Every current goal, inbound or outbound, is met by getting the patient
+// booked; the success criteria are judged separately when scoring.
+export function buildOutcome(
+  status: CallOutcome["status"],
+  bookedSlot: string | null = null
+): CallOutcome {
+  return { status, goalMet: status === "booked", bookedSlot };
+}
+
+export const OUTCOME_LABELS: Record<CallOutcome["status"], string> = {
+  booked: "Patient booked",
+  hung_up: "Patient hung up",
+  ended_by_va: "Call ended by VA",
+  transferred: "Transferred to the doctor",
+};
+
+const CALL_STATUSES: CallStatus[] = ["engaged", "booked", "hung_up"];
+
+// The patient model replies with JSON; anything malformed is treated as
+// plain speech so a bad reply never stalls the call. The mood carries over
+// from `previousMood` when the reply doesn't include one.
+export function parsePatientReply(
+  raw: string,
+  previousMood: PatientMood | null = null
+): {
+  text: string;
+  meta: PatientReplyMeta;
+} {
+  try {
+    const data = JSON.parse(raw) as {
+      reply?: unknown;
+      status?: unknown;
+      bookedSlot?: unknown;
+      mood?: unknown;
+    };
+    const status = CALL_STATUSES.includes(data.status as CallStatus)
+      ? (data.status as CallStatus)
+      : "engaged";
+    return {
+      text: typeof data.reply === "string" ? data.reply.trim() : "",
+      meta: {
+        status,
+        bookedSlot:
+          status === "booked" && typeof data.bookedSlot === "string"
+            ? data.bookedSlot.trim() || null
+            : null,
+        mood: parseMood(data.mood, previousMood),
+      },
+    };
+  } catch {
+    return {
+      text: raw.trim(),
+      meta: { status: "engaged", bookedSlot: null, mood: previousMood },
+    };
+  }
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+// Pulls the "reply" string out of a patient JSON reply while it is still
+// streaming, so the words can be shown (and spoken) before the JSON closes.
+// Each call returns only the newly decoded text.
+export function createReplyTextExtractor() {
+  let buffer = "";
+  let state: "seeking" | "reading" | "done" = "seeking";
+
+  return function push(chunk: string): string {
+    if (state === "done") return "";
+    buffer += chunk;
+
+    if (state === "seeking") {
+      const start = /"reply"\s*:\s*"/.exec(buffer);
+      if (!start) return "";
+      buffer = buffer.slice(start.index + start[0].length);
+      state = "reading";
+    }
+
+    let out = "";
+    let i = 0;
+    while (i < buffer.length) {
+      const c = buffer[i];
+      if (c === '"') {
+        state = "done";
+        break;
+      }
+      if (c !== "\\") {
+        out += c;
+        i += 1;
+        continue;
+      }
+      // Escapes may be split across chunks: wait for the rest.
+      const next = buffer[i + 1];
+      if (next === undefined) break;
+      if (next === "u") {
+        const hex = buffer.slice(i + 2, i + 6);
+        if (hex.length < 4) break;
+        out += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+      } else {
+        out += JSON_ESCAPES[next] ?? next;
+        i += 2;
+      }
+    }
+    buffer = buffer.slice(i);
+    return out;
+  };
+}
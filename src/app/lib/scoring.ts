@@ -0,0 +1,179 @@
+import type { BookingCheck } from "../types/calendar";
+import type { ClinicConfig } from "../types/config";
+import type { Turn } from "../types/call";
+import type { Discrepancy } from "../types/factCheck";
+import type { Persona } from "../types/persona";
+import type { CallOutcome } from "../types/scenario";
+import type {
+  ActionReview,
+  CategoryScore,
+  ScoreCategoryId,
+  Scorecard,
+} from "../types/score";
+import { formatDuration, LONG_HOLD_MS } from "./callActions";
+import { describeClinic, describePersona } from "./prompts";
+import { getScenarioGoal, OUTCOME_LABELS } from "./scenarios";
+
+export const SCORE_CATEGORIES: { id: ScoreCategoryId; label: string }[] = [
+  { id: "greeting", label: "Greeting" },
+  { id: "rapport", label: "Rapport" },
+  { id: "objectionHandling", label: "Objection Handling" },
+  { id: "bookingAttempt", label: "Booking Attempt" },
+  { id: "accuracy", label: "Accuracy" },
+];
+
+export function formatTranscript(turns: Turn[]) {
+  return turns
+    .map(
+      (t) =>
+        t.role === "event"
+          ? `[Call event: ${t.text}]`
+          : `${t.role === "staff" ? "VA" : "Patient"}: ${t.text}` +
+            (t.interrupted ? " [VA talked over the patient here]" : "")
+    )
+    .join("\n");
+}
+
+export function buildScoringPrompt(
+  clinic: ClinicConfig,
+  persona: Persona,
+  discrepancies: Discrepancy[] = [],
+  outcome?: CallOutcome,
+  bookingCheck?: BookingCheck
+) {
+  const goal = getScenarioGoal(persona.goalId);
+
+  const factCheck = discrepancies.length
+    ? discrepancies.map((d) => `- ${d.message}`).join("\n")
+    : "- None found";
+  const callType =
+    goal.direction === "outbound"
+      ? "an outbound call a chiropractic office VA placed to a simulated patient"
+      : "a call from a simulated patient to a chiropractic office VA";
+  const criteria = goal.successCriteria.map((c) => `- ${c}`).join("\n");
+  const slotCheck = bookingCheck
+    ? `\n\nCheck of the booked slot against the clinic calendar (use for the bookingAttempt and accuracy scores):\n${
+        bookingCheck.problems.length
+          ? bookingCheck.problems.map((p) => `- ${p}`).join("\n")
+          : "- Inside office hours, free, and booked in the calendar"
+      }`
+    : "";
+
+  return `
+You are a call coach reviewing a training call: ${callType}.
+
+Clinic facts (the VA should quote these accurately):
+${describeClinic(clinic)}
+
+Patient persona (${persona.title}):
+${describePersona(persona)}
+
+Call goal: ${goal.label}. ${goal.description}
+Outcome: ${outcome ? `${OUTCOME_LABELS[outcome.status]}${outcome.bookedSlot ? ` (${outcome.bookedSlot})` : ""}` : "unknown"}
+
+Success criteria for this type of call:
+${criteria}
+
+Automatic fact check of the VA's statements (use for the accuracy score):
+${factCheck}${slotCheck}
+
+Score the VA from 0 to 10 in each category:
+- greeting: clinic name, own name, warm and professional opening (on outbound calls, also why they're calling).
+- rapport: empathy, listening, using the caller's name, tone, not talking over the patient.
+- objectionHandling: addressing price, time, skepticism or boundary issues.
+- bookingAttempt: clearly asking for the appointment and offering times.
+- accuracy: every clinic fact the VA stated (prices, services, insurance, policies, FAQ answers) matches the clinic facts above.
+
+Reply with JSON only, in this shape:
+{
+  "summary": "2–3 sentence overall assessment",
+  "categories": {
+    "<category>": {
+      "score": 0-10,
+      "evidence": ["exact quotes from the transcript"],
+      "tips": ["concrete things the VA should say or do next time"]
+    }
+  },
+  "criteria": [{"criterion": "copied from the success criteria", "met": true or false}],
+  "actions": [{"event": "copied from a [Call event: ...] line", "appropriate": true or false, "comment": "one sentence on why"}]
+}
+
+Evidence must be copied word for word from the transcript. Judge every success criterion, in the order listed.
+
+Holds, transfers and callbacks appear in the transcript as [Call event: ...] lines, just before what the VA said with them. Judge each one, in order, in "actions" (an empty list if there were none): was it needed, did the VA explain it to the caller, was a hold kept short (${formatDuration(LONG_HOLD_MS)} or more is long), was a transfer to the doctor warranted rather than a way to avoid the question, and did a callback come with a specific time and reason? Let poor ones count against rapport.
+`;
+}
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is string => typeof v === "string")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function clampScore(value: unknown) {
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n)) return 0;
+  return Math.min(10, Math.max(0, Math.round(n)));
+}
+
+// The model output is untrusted, so every field is normalised before it
+// reaches the UI. The overall score is computed here rather than asked for.
+// `criteria` are the goal's success criteria and `events` the text of the
+// call's event turns; any the model skipped count as not met. Throws when
+// the reply is not a JSON object at all.
+export function parseScorecard(
+  raw: string,
+  criteria: string[] = [],
+  events: string[] = []
+): Scorecard {
+  const data = JSON.parse(raw) as {
+    summary?: unknown;
+    categories?: Record<string, Record<string, unknown> | undefined>;
+    criteria?: unknown;
+    actions?: unknown;
+  } | null;
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("The scorecard must be a JSON object");
+  }
+  const judged = Array.isArray(data.criteria) ? data.criteria : [];
+  const reviewed = Array.isArray(data.actions) ? data.actions : [];
+
+  const categories = {} as Record<ScoreCategoryId, CategoryScore>;
+  for (const { id } of SCORE_CATEGORIES) {
+    const entry = data.categories?.[id] ?? {};
+    categories[id] = {
+      score: clampScore(entry.score),
+      evidence: toStringList(entry.evidence),
+      tips: toStringList(entry.tips),
+    };
+  }
+
+  const total = SCORE_CATEGORIES.reduce(
+    (sum, { id }) => sum + categories[id].score,
+    0
+  );
+
+  return {
+    overall: Math.round((total / (SCORE_CATEGORIES.length * 10)) * 100),
+    summary: typeof data.summary === "string" ? data.summary.trim() : "",
+    categories,
+    criteria: criteria.map((criterion, i) => {
+      const entry =
+        judged.find((j) => j?.criterion === criterion) ?? judged[i];
+      return { criterion, met: entry?.met === true };
+    }),
+    actions: events.map((event, i): ActionReview => {
+      const entry =
+        reviewed[i]?.event === event
+          ? reviewed[i]
+          : reviewed.find((r) => r?.event === event) ?? reviewed[i];
+      return {
+        event,
+        appropriate: entry?.appropriate === true,
+        comment: typeof entry?.comment === "string" ? entry.comment.trim() : "",
+      };
+    }),
+  };
+}
@@ -0,0 +1,161 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Account, Assignment } from "../../types/account";
+
+// Local accounts and the assignments trainers give them. ACCOUNT_STORE
+// picks the backend: "file" (default), one JSON file in ACCOUNT_STORE_DIR,
+// or "memory". Unlike calls, accounts are meant to outlast a restart.
+export type StoredAccount = Account & {
+  passwordHash: string; // see lib/server/auth.ts
+};
+
+export interface AccountStore {
+  listAccounts(): Promise<StoredAccount[]>;
+  getAccount(id: string): Promise<StoredAccount | null>;
+  findByUsername(username: string): Promise<StoredAccount | null>;
+  saveAccount(account: StoredAccount): Promise<void>;
+  // Adds a new account in turn with other writes, unless its username is
+  // taken or, with `firstOnly`, another account got there first.
+  addAccount(
+    account: StoredAccount,
+    options?: { firstOnly?: boolean }
+  ): Promise<AddAccountResult>;
+  listAssignments(): Promise<Assignment[]>;
+  getAssignment(id: string): Promise<Assignment | null>;
+  saveAssignment(assignment: Assignment): Promise<void>;
+  removeAssignment(id: string): Promise<void>;
+}
+
+export type AddAccountResult = "added" | "taken" | "not_first";
+
+type AccountData = {
+  accounts: StoredAccount[];
+  assignments: Assignment[];
+};
+
+const EMPTY: AccountData = { accounts: [], assignments: [] };
+
+// Both backends keep everything in one document; writes queue up so two
+// requests can't overwrite each other's changes.
+function createStore(
+  read: () => Promise<AccountData>,
+  write: (data: AccountData) => Promise<void>
+): AccountStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function update(change: (data: AccountData) => AccountData) {
+    const next = queue.then(async () => write(change(await read())));
+    queue = next.catch(() => {});
+    return next;
+  }
+
+  return {
+    async listAccounts() {
+      return (await read()).accounts;
+    },
+    async getAccount(id) {
+      return (await read()).accounts.find((a) => a.id === id) ?? null;
+    },
+    async findByUsername(username) {
+      const name = username.toLowerCase();
+      return (await read()).accounts.find((a) => a.username === name) ?? null;
+    },
+    async saveAccount(account) {
+      await update((data) => ({
+        ...data,
+        accounts: [
+          ...data.accounts.filter((a) => a.id !== account.id),
+          account,
+        ],
+      }));
+    },
+    async addAccount(account, { firstOnly = false } = {}) {
+      let result: AddAccountResult = "added";
+      await update((data) => {
+        const name = account.username.toLowerCase();
+        if (firstOnly && data.accounts.length > 0) result = "not_first";
+        else if (data.accounts.some((a) => a.username === name)) {
+          result = "taken";
+        } else return { ...data, accounts: [...data.accounts, account] };
+        return data;
+      });
+      return result;
+    },
+    async listAssignments() {
+      return (await read()).assignments;
+    },
+    async getAssignment(id) {
+      return (await read()).assignments.find((a) => a.id === id) ?? null;
+    },
+    async saveAssignment(assignment) {
+      await update((data) => ({
+        ...data,
+        assignments: [
+          ...data.assignments.filter((a) => a.id !== assignment.id),
+          assignment,
+        ],
+      }));
+    },
+    async removeAssignment(id) {
+      await update((data) => ({
+        ...data,
+        assignments: data.assignments.filter((a) => a.id !== id),
+      }));
+    },
+  };
+}
+
+export function createMemoryAccountStore(): AccountStore {
+  // Kept on globalThis so dev-mode module reloads don't sign everyone out.
+  const globalForAccounts = globalThis as unknown as {
+    accountData?: AccountData;
+  };
+  globalForAccounts.accountData ??= structuredClone(EMPTY);
+
+  return createStore(
+    async () => structuredClone(globalForAccounts.accountData!),
+    async (data) => {
+      globalForAccounts.accountData = structuredClone(data);
+    }
+  );
+}
+
+export function createFileAccountStore(
+  dir = process.env.ACCOUNT_STORE_DIR ||
+    path.join(process.cwd(), ".data", "accounts")
+): AccountStore {
+  const file = path.join(dir, "accounts.json");
+
+  return createStore(
+    async () => {
+      try {
+        return { ...EMPTY, ...JSON.parse(await fs.readFile(file, "utf8")) };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          return structuredClone(EMPTY);
+        }
+        throw err;
+      }
+    },
+    async (data) => {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(file, JSON.stringify(data), "utf8");
+    }
+  );
+}
+
+let store: AccountStore | null = null;
+
+export function getAccountStore(): AccountStore {
+  if (!store) {
+    const kind = process.env.ACCOUNT_STORE || "file";
+    if (kind === "file") store = createFileAccountStore();
+    else if (kind === "memory") store = createMemoryAccountStore();
+    else {
+      throw new Error(
+        `Unknown ACCOUNT_STORE "${kind}". Expected "file" or "memory".`
+      );
+    }
+  }
+  return store;
+}
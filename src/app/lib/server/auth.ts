@@ -0,0 +1,146 @@
+import {
+  createHmac,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+} from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import type { Account, AccountRole } from "../../types/account";
+import type { CallSession, ConversationSession } from "../../types/session";
+import type { StoredAccount } from "./accountStore";
+import { getAccountStore } from "./accountStore";
+import { apiError } from "./errors";
+import { getSessionStore } from "./sessionStore";
+
+// Sign-in against the local account store: scrypt password hashes and a
+// signed cookie holding the account id, so no outside identity provider
+// is needed.
+
+export const SESSION_COOKIE = "trainer_session";
+const SESSION_DAYS = 7;
+
+function scryptHash(password: string, salt: string) {
+  return new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, 64, (err, key) => (err ? reject(err) : resolve(key)))
+  );
+}
+
+// Stored as "salt:hash", both hex.
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  return `${salt}:${(await scryptHash(password, salt)).toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptHash(password, salt);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// AUTH_SECRET signs the cookie. Without it a random secret is made per
+// server process, which signs everyone out on restart.
+function secret() {
+  const globalForAuth = globalThis as unknown as { authSecret?: string };
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  if (!globalForAuth.authSecret) {
+    console.warn("AUTH_SECRET is not set; sign-ins end when the server stops.");
+    globalForAuth.authSecret = randomBytes(32).toString("hex");
+  }
+  return globalForAuth.authSecret;
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", secret()).update(payload).digest("base64url");
+}
+
+function readToken(token: string | undefined) {
+  const [payload, signature] = token?.split(".") ?? [];
+  if (!payload || !signature) return null;
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  try {
+    const { id, exp } = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8")
+    );
+    return typeof id === "string" && typeof exp === "number" && exp > Date.now()
+      ? id
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// What a page may see of an account.
+export function toAccount(account: StoredAccount): Account {
+  const { id, username, displayName, role, createdAt } = account;
+  return { id, username, displayName, role, createdAt };
+}
+
+export function startSignIn(res: NextResponse, account: Account) {
+  const maxAge = SESSION_DAYS * 24 * 60 * 60;
+  const payload = Buffer.from(
+    JSON.stringify({ id: account.id, exp: Date.now() + maxAge * 1000 })
+  ).toString("base64url");
+  res.cookies.set(SESSION_COOKIE, `${payload}.${sign(payload)}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge,
+  });
+  return res;
+}
+
+export function endSignIn(res: NextResponse) {
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
+
+// The signed-in account, or null.
+export async function currentAccount(req: NextRequest) {
+  const id = readToken(req.cookies.get(SESSION_COOKIE)?.value);
+  if (!id) return null;
+  const account = await getAccountStore().getAccount(id);
+  return account ? toAccount(account) : null;
+}
+
+// Throws an "unauthorized" or "forbidden" API error for handleRouteError.
+export async function requireAccount(req: NextRequest, role?: AccountRole) {
+  const account = await currentAccount(req);
+  if (!account) throw apiError("unauthorized", "Sign in first");
+  if (role && account.role !== role) {
+    throw apiError("forbidden", `Only ${role}s can do that`);
+  }
+  return account;
+}
+
+// A call, live or saved, belongs to the account that started it; trainers
+// can open any. Calls from before sign-in have no trainee and stay open to
+// everyone.
+export function canUseCall(
+  account: Account,
+  call: Pick<ConversationSession | CallSession, "trainee">
+) {
+  return (
+    !call.trainee ||
+    call.trainee.id === account.id ||
+    account.role === "trainer"
+  );
+}
+
+// The signed-in account and the session it asked for, for the
+// /api/sessions/:id routes. Throws like requireAccount.
+export async function requireSession(req: NextRequest, id: string) {
+  const account = await requireAccount(req);
+  const session = await getSessionStore().get(id);
+  if (!session) throw apiError("session_not_found", "Session not found");
+  if (!canUseCall(account, session)) {
+    throw apiError("forbidden", "This call belongs to another account");
+  }
+  return { account, session };
+}
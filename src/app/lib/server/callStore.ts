@@ -0,0 +1,132 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { CallSession } from "../../types/session";
+
+// Finished calls, saved by /api/sessions/:id/end so trainers see every VA's
+// calls and not just the ones in their own browser. CALL_STORE picks the
+// backend: "file" (default), one JSON file per call in CALL_STORE_DIR, or
+// "memory".
+export interface CallStore {
+  list(): Promise<CallSession[]>;
+  get(id: string): Promise<CallSession | null>;
+  save(call: CallSession): Promise<void>;
+  remove(id: string): Promise<void>;
+  // Reads, changes and saves one call in turn with other updates. `change`
+  // gets null for a call not saved yet and returns null to leave it as is.
+  update(
+    id: string,
+    change: (call: CallSession | null) => CallSession | null
+  ): Promise<CallSession | null>;
+}
+
+// Updates queue up, so a trainer's comment, the VA resolving another one and
+// the call being re-scored at the same moment all land.
+function withUpdates(store: Omit<CallStore, "update">): CallStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    ...store,
+    update(id, change) {
+      const next = queue.then(async () => {
+        const changed = change(await store.get(id));
+        if (changed) await store.save(changed);
+        return changed;
+      });
+      queue = next.catch(() => {});
+      return next;
+    },
+  };
+}
+
+export function createMemoryCallStore(): CallStore {
+  // Kept on globalThis so dev-mode module reloads don't drop saved calls.
+  const globalForCalls = globalThis as unknown as {
+    savedCalls?: Map<string, CallSession>;
+  };
+  const calls = (globalForCalls.savedCalls ??= new Map());
+
+  return withUpdates({
+    async list() {
+      return [...calls.values()].map((call) => structuredClone(call));
+    },
+    async get(id) {
+      const call = calls.get(id);
+      return call ? structuredClone(call) : null;
+    },
+    async save(call) {
+      calls.set(call.id, structuredClone(call));
+    },
+    async remove(id) {
+      calls.delete(id);
+    },
+  });
+}
+
+const SAFE_ID_RE = /^[A-Za-z0-9-]+$/;
+
+export function createFileCallStore(
+  dir = process.env.CALL_STORE_DIR || path.join(process.cwd(), ".data", "calls")
+): CallStore {
+  // Ids come from the client, so they never reach the filesystem unchecked.
+  function fileFor(id: string) {
+    if (!SAFE_ID_RE.test(id)) return null;
+    return path.join(dir, `${id}.json`);
+  }
+
+  async function read(file: string): Promise<CallSession | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  return withUpdates({
+    async list() {
+      let names: string[];
+      try {
+        names = await fs.readdir(dir);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+      const calls = await Promise.all(
+        names
+          .filter((name) => name.endsWith(".json"))
+          .map((name) => read(path.join(dir, name)))
+      );
+      return calls.filter((call): call is CallSession => call !== null);
+    },
+    async get(id) {
+      const file = fileFor(id);
+      return file ? read(file) : null;
+    },
+    async save(call) {
+      const file = fileFor(call.id);
+      if (!file) throw new Error(`Invalid call id "${call.id}"`);
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(file, JSON.stringify(call), "utf8");
+    },
+    async remove(id) {
+      const file = fileFor(id);
+      if (file) await fs.rm(file, { force: true });
+    },
+  });
+}
+
+let store: CallStore | null = null;
+
+export function getCallStore(): CallStore {
+  if (!store) {
+    const kind = process.env.CALL_STORE || "file";
+    if (kind === "file") store = createFileCallStore();
+    else if (kind === "memory") store = createMemoryCallStore();
+    else {
+      throw new Error(
+        `Unknown CALL_STORE "${kind}". Expected "file" or "memory".`
+      );
+    }
+  }
+  return store;
+}
@@ -0,0 +1,108 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { ClinicProfile } from "../../types/config";
+import { migrateClinicConfig } from "../clinicConfig";
+
+// The team's clinic profiles, shared by every account so a VA trains on the
+// clinics their trainer set up. CLINIC_STORE picks the backend: "file"
+// (default), one JSON file in CLINIC_STORE_DIR, or "memory".
+export interface ClinicStore {
+  list(): Promise<ClinicProfile[]>;
+  get(id: string): Promise<ClinicProfile | null>;
+  save(profile: ClinicProfile): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+// Like the account store: one document, with writes queued so two trainers
+// saving at once don't drop each other's changes.
+function createStore(
+  read: () => Promise<ClinicProfile[]>,
+  write: (profiles: ClinicProfile[]) => Promise<void>
+): ClinicStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function update(change: (profiles: ClinicProfile[]) => ClinicProfile[]) {
+    const next = queue.then(async () => write(change(await read())));
+    queue = next.catch(() => {});
+    return next;
+  }
+
+  // Profiles saved by older versions are upgraded as they are read.
+  async function readCurrent() {
+    return (await read()).map((p) => ({
+      ...p,
+      config: migrateClinicConfig(p.config),
+    }));
+  }
+
+  return {
+    async list() {
+      return readCurrent();
+    },
+    async get(id) {
+      return (await readCurrent()).find((p) => p.id === id) ?? null;
+    },
+    async save(profile) {
+      await update((profiles) => [
+        ...profiles.filter((p) => p.id !== profile.id),
+        profile,
+      ]);
+    },
+    async remove(id) {
+      await update((profiles) => profiles.filter((p) => p.id !== id));
+    },
+  };
+}
+
+export function createMemoryClinicStore(): ClinicStore {
+  // Kept on globalThis so dev-mode module reloads don't drop the clinics.
+  const globalForClinics = globalThis as unknown as {
+    clinicProfiles?: ClinicProfile[];
+  };
+  globalForClinics.clinicProfiles ??= [];
+
+  return createStore(
+    async () => structuredClone(globalForClinics.clinicProfiles!),
+    async (profiles) => {
+      globalForClinics.clinicProfiles = structuredClone(profiles);
+    }
+  );
+}
+
+export function createFileClinicStore(
+  dir = process.env.CLINIC_STORE_DIR ||
+    path.join(process.cwd(), ".data", "clinics")
+): ClinicStore {
+  const file = path.join(dir, "clinics.json");
+
+  return createStore(
+    async () => {
+      try {
+        return JSON.parse(await fs.readFile(file, "utf8"));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+    },
+    async (profiles) => {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(file, JSON.stringify(profiles), "utf8");
+    }
+  );
+}
+
+let store: ClinicStore | null = null;
+
+export function getClinicStore(): ClinicStore {
+  if (!store) {
+    const kind = process.env.CLINIC_STORE || "file";
+    if (kind === "file") store = createFileClinicStore();
+    else if (kind === "memory") store = createMemoryClinicStore();
+    else {
+      throw new Error(
+        `Unknown CLINIC_STORE "${kind}". Expected "file" or "memory".`
+      );
+    }
+  }
+  return store;
+}
@@ -0,0 +1,29 @@
+import type { CoachingTip } from "../../types/coaching";
+import type { ConversationSession } from "../../types/session";
+import { getAIProviders } from "../ai";
+import { buildCoachingPrompt, parseCoachingTip } from "../coaching";
+import { formatTranscript } from "../scoring";
+import { tagFailure } from "./errors";
+
+export async function coachCall(
+  session: ConversationSession
+): Promise<CoachingTip> {
+  const { chat } = getAIProviders();
+  const reply = await tagFailure(
+    "model_failed",
+    "The coaching model did not reply",
+    () =>
+      chat.complete(
+        [
+          {
+            role: "system",
+            content: buildCoachingPrompt(session.clinic, session.persona),
+          },
+          { role: "user", content: formatTranscript(session.turns) },
+        ],
+        { task: "coach", temperature: 0.5, json: true }
+      )
+  );
+
+  return parseCoachingTip(reply);
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import type { ApiErrorBody, ApiErrorCode } from "../../types/errors";
+
+const STATUS: Record<ApiErrorCode, number> = {
+  bad_input: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  session_not_found: 404,
+  call_ended: 409,
+  empty_speech: 422,
+  transcription_failed: 502,
+  model_failed: 502,
+  tts_failed: 502,
+  server_error: 500,
+};
+
+// An Error tagged with the code the route should answer with.
+export type ApiError = Error & { code: ApiErrorCode; details?: string[] };
+
+export function apiError(
+  code: ApiErrorCode,
+  message: string,
+  options: { cause?: unknown; details?: string[] } = {}
+): ApiError {
+  return Object.assign(new Error(message, { cause: options.cause }), {
+    code,
+    details: options.details,
+  });
+}
+
+export function isApiError(err: unknown): err is ApiError {
+  return err instanceof Error && "code" in err && typeof err.code === "string";
+}
+
+// Runs a provider call, turning any failure into the given code.
+export async function tagFailure<T>(
+  code: ApiErrorCode,
+  message: string,
+  run: () => Promise<T>
+): Promise<T> {
+  try {
+    return await run();
+  } catch (err) {
+    if (isApiError(err)) throw err;
+    throw apiError(code, message, { cause: err });
+  }
+}
+
+export function toErrorBody(err: unknown): ApiErrorBody {
+  if (isApiError(err)) {
+    return { error: err.message, code: err.code, details: err.details };
+  }
+  return { error: "Server error", code: "server_error" };
+}
+
+export function errorResponse(
+  code: ApiErrorCode,
+  message: string,
+  details?: string[]
+) {
+  const body: ApiErrorBody = { error: message, code, details };
+  return NextResponse.json(body, { status: STATUS[code] });
+}
+
+// The catch-all for route handlers: logs, then answers with the error's own
+// code or a plain 500.
+export function handleRouteError(err: unknown) {
+  console.error(err);
+  const body = toErrorBody(err);
+  return NextResponse.json(body, { status: STATUS[body.code] });
+}
@@ -0,0 +1,269 @@
+import type { CallAction, Turn, TurnTiming } from "../../types/call";
+import type { ConversationSession } from "../../types/session";
+import type { PatientReplyMeta } from "../../types/scenario";
+import type { PatientTurnResult, TurnStreamEvent } from "../../types/turn";
+import type { ChatMessage } from "../ai";
+import { getAIProviders } from "../ai";
+import { callActionTurn, describeActionForPatient } from "../callActions";
+import { currentMood, describeMood } from "../mood";
+import { buildPatientSystemPrompt } from "../prompts";
+import { createReplyTextExtractor, parsePatientReply } from "../scenarios";
+import { apiError, tagFailure } from "./errors";
+
+export type StaffInput = ({ audio: File } | { text: string }) & {
+  timing?: TurnTiming;
+  action?: CallAction;
+};
+
+// The VA's line, after the event for any action that went with it.
+function staffTurns(text: string, input: StaffInput): Turn[] {
+  const line: Turn = input.timing
+    ? { role: "staff", text, timing: input.timing }
+    : { role: "staff", text };
+  return input.action ? [callActionTurn(input.action), line] : [line];
+}
+
+const PATIENT_CHAT_OPTIONS = {
+  task: "patient-reply",
+  temperature: 0.7,
+  json: true,
+} as const;
+
+async function transcribeStaff(input: StaffInput) {
+  if ("text" in input) return input.text;
+  const { stt } = getAIProviders();
+  const text = await tagFailure(
+    "transcription_failed",
+    "Could not transcribe the recording",
+    () => stt.transcribe(input.audio)
+  );
+  if (!text.trim()) {
+    throw apiError("empty_speech", "No speech was heard in the recording");
+  }
+  return text.trim();
+}
+
+function synthesize(text: string) {
+  const { tts } = getAIProviders();
+  return tagFailure(
+    "tts_failed",
+    "Could not generate the patient's voice",
+    () => tts.synthesize(text)
+  );
+}
+
+function buildPatientMessages(
+  session: ConversationSession,
+  turns: Turn[]
+): ChatMessage[] {
+  const mood = currentMood(turns);
+  return [
+    {
+      role: "system",
+      content: buildPatientSystemPrompt(
+        session.clinic,
+        session.persona,
+        new Date(session.startedAt)
+      ),
+    },
+    ...turns.flatMap((t): ChatMessage[] => {
+      if (t.role === "event") {
+        return t.action
+          ? [
+              {
+                role: "system",
+                content: describeActionForPatient(
+                  t.action,
+                  session.clinic.doctorName
+                ),
+              },
+            ]
+          : [];
+      }
+      const message: ChatMessage = {
+        role: t.role === "staff" ? "user" : "assistant",
+        content: t.text,
+      };
+      return t.interrupted
+        ? [
+            message,
+            {
+              role: "system",
+              content:
+                "The receptionist talked over you before you finished that line.",
+            },
+          ]
+        : [message];
+    }),
+    ...(mood
+      ? [
+          {
+            role: "system" as const,
+            content: `Your mood before the receptionist's latest line: ${describeMood(mood)}.`,
+          },
+        ]
+      : []),
+  ];
+}
+
+function patientTurn(text: string, meta: PatientReplyMeta): Turn {
+  return meta.mood
+    ? { role: "patient", text, mood: meta.mood }
+    : { role: "patient", text };
+}
+
+// One exchange: transcribe the VA (unless typed), get the patient's reply
+// for the session's persona and clinic, and optionally speak it.
+export async function runPatientTurn(
+  session: ConversationSession,
+  input: StaffInput,
+  speak: boolean
+): Promise<PatientTurnResult> {
+  const { chat } = getAIProviders();
+
+  // 1) TRANSCRIBE STAFF AUDIO (typed turns skip this)
+  const staffText = await transcribeStaff(input);
+  const updatedTurns: Turn[] = [
+    ...session.turns,
+    ...staffTurns(staffText, input),
+  ];
+
+  // 2) PATIENT AI REPLY
+  const reply = await tagFailure(
+    "model_failed",
+    "The patient model did not reply",
+    () =>
+      chat.complete(
+        buildPatientMessages(session, updatedTurns),
+        PATIENT_CHAT_OPTIONS
+      )
+  );
+  if (!reply.trim()) {
+    throw apiError("model_failed", "The patient model returned an empty reply");
+  }
+
+  const { text, meta } = parsePatientReply(reply, currentMood(session.turns));
+  const patientText = text || "Okay, go ahead.";
+
+  // 3) SPEECH (TTS), unless the client only wants text back
+  let audioBase64 = "";
+  let audioMimeType = "";
+  if (speak) {
+    const speech = await synthesize(patientText);
+    audioBase64 = speech.audio.toString("base64");
+    audioMimeType = speech.mimeType;
+  }
+
+  return {
+    staffText,
+    patientText,
+    audioBase64,
+    audioMimeType,
+    meta,
+    turns: [...updatedTurns, patientTurn(patientText, meta)],
+  };
+}
+
+const SENTENCE_END_RE = /[.!?…]+["')\]]*\s+/g;
+
+// Streaming version of runPatientTurn. Emits the staff transcript, then the
+// patient's words as they are generated, then one audio clip per sentence.
+// Speech for a sentence starts as soon as it is complete, but clips are
+// always emitted in order. Resolves with the same result as runPatientTurn,
+// minus the audio.
+export async function streamPatientTurn(
+  session: ConversationSession,
+  input: StaffInput,
+  speak: boolean,
+  emit: (event: TurnStreamEvent) => void
+): Promise<PatientTurnResult> {
+  const { chat } = getAIProviders();
+
+  const staffText = await transcribeStaff(input);
+  emit({ type: "staff", text: staffText });
+
+  const updatedTurns: Turn[] = [
+    ...session.turns,
+    ...staffTurns(staffText, input),
+  ];
+
+  let spoken = ""; // reply text already sent to TTS
+  let streamed = ""; // reply text streamed so far
+  let sentenceIndex = 0;
+  let audioQueue = Promise.resolve();
+
+  function speakSentence(sentence: string) {
+    const text = sentence.trim();
+    if (!speak || !text) return;
+    const index = sentenceIndex++;
+    const speech = synthesize(text);
+    // Failures surface when the queue is awaited; these only stop Node
+    // reporting them as unhandled in the meantime.
+    speech.catch(() => {});
+    audioQueue = audioQueue.then(async () => {
+      const { audio, mimeType } = await speech;
+      emit({
+        type: "audio",
+        index,
+        text,
+        audioBase64: audio.toString("base64"),
+        mimeType,
+      });
+    });
+    audioQueue.catch(() => {});
+  }
+
+  const extractReply = createReplyTextExtractor();
+  let raw = "";
+
+  try {
+    for await (const delta of chat.stream(
+      buildPatientMessages(session, updatedTurns),
+      PATIENT_CHAT_OPTIONS
+    )) {
+      raw += delta;
+      const text = extractReply(delta);
+      if (!text) continue;
+
+      streamed += text;
+      emit({ type: "patient-delta", text });
+
+      // Hand every completed sentence to TTS right away.
+      const pending = streamed.slice(spoken.length);
+      let end = 0;
+      for (const match of pending.matchAll(SENTENCE_END_RE)) {
+        end = match.index + match[0].length;
+      }
+      if (end > 0) {
+        speakSentence(pending.slice(0, end));
+        spoken += pending.slice(0, end);
+      }
+    }
+  } catch (err) {
+    throw apiError("model_failed", "The patient model stopped replying", {
+      cause: err,
+    });
+  }
+  if (!raw.trim()) {
+    throw apiError("model_failed", "The patient model returned an empty reply");
+  }
+
+  const { text, meta } = parsePatientReply(raw, currentMood(session.turns));
+  const patientText = text || "Okay, go ahead.";
+
+  // Whatever was not spoken yet: the last sentence, or the whole reply if
+  // the model did not stream a "reply" field we could read.
+  speakSentence(
+    streamed ? streamed.slice(spoken.length) : patientText
+  );
+  await audioQueue;
+
+  return {
+    staffText,
+    patientText,
+    audioBase64: "",
+    audioMimeType: "",
+    meta,
+    turns: [...updatedTurns, patientTurn(patientText, meta)],
+  };
+}
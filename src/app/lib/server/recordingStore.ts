@@ -0,0 +1,84 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// The audio of saved calls, one mixed WAV track per call, uploaded by the
+// browser that made the call. Who spoke when is saved on the call itself.
+// RECORDING_STORE picks the backend: "file" (default), one WAV file per call
+// in RECORDING_STORE_DIR, or "memory".
+export interface RecordingStore {
+  get(callId: string): Promise<Buffer | null>;
+  save(callId: string, audio: Buffer): Promise<void>;
+  remove(callId: string): Promise<void>;
+}
+
+export function createMemoryRecordingStore(): RecordingStore {
+  // Kept on globalThis so dev-mode module reloads don't drop recordings.
+  const globalForRecordings = globalThis as unknown as {
+    callAudio?: Map<string, Buffer>;
+  };
+  const recordings = (globalForRecordings.callAudio ??= new Map());
+
+  return {
+    async get(callId) {
+      return recordings.get(callId) ?? null;
+    },
+    async save(callId, audio) {
+      recordings.set(callId, audio);
+    },
+    async remove(callId) {
+      recordings.delete(callId);
+    },
+  };
+}
+
+const SAFE_ID_RE = /^[A-Za-z0-9-]+$/;
+
+export function createFileRecordingStore(
+  dir = process.env.RECORDING_STORE_DIR ||
+    path.join(process.cwd(), ".data", "recordings")
+): RecordingStore {
+  // Ids come from the client, so they never reach the filesystem unchecked.
+  function fileFor(callId: string) {
+    if (!SAFE_ID_RE.test(callId)) return null;
+    return path.join(dir, `${callId}.wav`);
+  }
+
+  return {
+    async get(callId) {
+      const file = fileFor(callId);
+      if (!file) return null;
+      try {
+        return await fs.readFile(file);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+    },
+    async save(callId, audio) {
+      const file = fileFor(callId);
+      if (!file) throw new Error(`Invalid call id "${callId}"`);
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(file, audio);
+    },
+    async remove(callId) {
+      const file = fileFor(callId);
+      if (file) await fs.rm(file, { force: true });
+    },
+  };
+}
+
+let store: RecordingStore | null = null;
+
+export function getRecordingStore(): RecordingStore {
+  if (!store) {
+    const kind = process.env.RECORDING_STORE || "file";
+    if (kind === "file") store = createFileRecordingStore();
+    else if (kind === "memory") store = createMemoryRecordingStore();
+    else {
+      throw new Error(
+        `Unknown RECORDING_STORE "${kind}". Expected "file" or "memory".`
+      );
+    }
+  }
+  return store;
+}
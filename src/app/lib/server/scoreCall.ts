@@ -0,0 +1,63 @@
+import type { BookingCheck } from "../../types/calendar";
+import type { ClinicConfig } from "../../types/config";
+import type { Turn } from "../../types/call";
+import type { Discrepancy } from "../../types/factCheck";
+import type { Persona } from "../../types/persona";
+import type { CallOutcome } from "../../types/scenario";
+import type { Scorecard } from "../../types/score";
+import { getAIProviders } from "../ai";
+import { callEvents } from "../callActions";
+import { checkCallFacts } from "../factCheck";
+import { getScenarioGoal } from "../scenarios";
+import {
+  buildScoringPrompt,
+  formatTranscript,
+  parseScorecard,
+} from "../scoring";
+import { tagFailure } from "./errors";
+
+export async function scoreCall(
+  turns: Turn[],
+  clinic: ClinicConfig,
+  persona: Persona,
+  outcome?: CallOutcome,
+  bookingCheck?: BookingCheck
+): Promise<{ scorecard: Scorecard; discrepancies: Discrepancy[] }> {
+  const discrepancies = checkCallFacts(turns, clinic);
+
+  const { chat } = getAIProviders();
+  const reply = await tagFailure(
+    "model_failed",
+    "The scoring model did not reply",
+    () =>
+      chat.complete(
+        [
+          {
+            role: "system",
+            content: buildScoringPrompt(
+              clinic,
+              persona,
+              discrepancies,
+              outcome,
+              bookingCheck
+            ),
+          },
+          { role: "user", content: formatTranscript(turns) },
+        ],
+        { task: "score-call", temperature: 0.2, json: true }
+      )
+  );
+
+  const scorecard = await tagFailure(
+    "model_failed",
+    "The scoring model's reply was not a scorecard",
+    async () =>
+      parseScorecard(
+        reply,
+        getScenarioGoal(persona.goalId).successCriteria,
+        callEvents(turns).map((t) => t.text)
+      )
+  );
+
+  return { scorecard, discrepancies };
+}
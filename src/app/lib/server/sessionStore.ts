@@ -0,0 +1,169 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { ConversationSession } from "../../types/session";
+
+// Server-side home of in-progress calls. SESSION_STORE picks the backend:
+// "memory" (default) or "file", which keeps one JSON file per session in
+// SESSION_STORE_DIR so sessions survive a restart.
+export interface ConversationStore {
+  get(id: string): Promise<ConversationSession | null>;
+  save(session: ConversationSession): Promise<void>;
+  remove(id: string): Promise<void>;
+  // Removes every session isExpired() says is done with; returns how many.
+  removeExpired(now: number): Promise<number>;
+}
+
+// Ended calls are kept long enough to retry scoring; calls that never
+// reached /end (a closed tab) are dropped a day after they started.
+const ENDED_TTL_MS = 60 * 60 * 1000;
+const ABANDONED_TTL_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+export function isExpired(session: ConversationSession, now: number) {
+  return session.endedAt
+    ? now - Date.parse(session.endedAt) > ENDED_TTL_MS
+    : now - Date.parse(session.startedAt) > ABANDONED_TTL_MS;
+}
+
+export function createMemorySessionStore(): ConversationStore {
+  // Kept on globalThis so dev-mode module reloads don't drop live calls.
+  const globalForSessions = globalThis as unknown as {
+    conversationSessions?: Map<string, ConversationSession>;
+  };
+  const sessions = (globalForSessions.conversationSessions ??= new Map());
+
+  // Copies in and out, like the file store, so a request that changes a
+  // session and then fails doesn't leave the change behind.
+  return {
+    async get(id) {
+      const session = sessions.get(id);
+      return session ? structuredClone(session) : null;
+    },
+    async save(session) {
+      sessions.set(session.id, structuredClone(session));
+    },
+    async remove(id) {
+      sessions.delete(id);
+    },
+    async removeExpired(now) {
+      let removed = 0;
+      for (const [id, session] of sessions) {
+        if (isExpired(session, now)) {
+          sessions.delete(id);
+          removed++;
+        }
+      }
+      return removed;
+    },
+  };
+}
+
+const SAFE_ID_RE = /^[A-Za-z0-9-]+$/;
+
+export function createFileSessionStore(
+  dir = process.env.SESSION_STORE_DIR ||
+    path.join(process.cwd(), ".data", "sessions")
+): ConversationStore {
+  // Ids come from the client, so they never reach the filesystem unchecked.
+  function fileFor(id: string) {
+    if (!SAFE_ID_RE.test(id)) return null;
+    return path.join(dir, `${id}.json`);
+  }
+
+  async function read(file: string): Promise<ConversationSession | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  return {
+    async get(id) {
+      const file = fileFor(id);
+      return file ? read(file) : null;
+    },
+    async save(session) {
+      const file = fileFor(session.id);
+      if (!file) throw new Error(`Invalid session id "${session.id}"`);
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(file, JSON.stringify(session), "utf8");
+    },
+    async remove(id) {
+      const file = fileFor(id);
+      if (file) await fs.rm(file, { force: true });
+    },
+    async removeExpired(now) {
+      let names: string[];
+      try {
+        names = await fs.readdir(dir);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return 0;
+        throw err;
+      }
+      let removed = 0;
+      for (const name of names) {
+        if (!name.endsWith(".json")) continue;
+        const file = path.join(dir, name);
+        const session = await read(file);
+        if (session && isExpired(session, now)) {
+          await fs.rm(file, { force: true });
+          removed++;
+        }
+      }
+      return removed;
+    },
+  };
+}
+
+let store: ConversationStore | null = null;
+
+export function getSessionStore(): ConversationStore {
+  if (!store) {
+    const kind = process.env.SESSION_STORE || "memory";
+    if (kind === "file") store = createFileSessionStore();
+    else if (kind === "memory") store = createMemorySessionStore();
+    else {
+      throw new Error(
+        `Unknown SESSION_STORE "${kind}". Expected "memory" or "file".`
+      );
+    }
+  }
+  return store;
+}
+
+let updates: Promise<unknown> = Promise.resolve();
+
+// Reads, changes and saves one session in turn with other updates, so a
+// route that awaited a model or a request body changes the latest copy and
+// never saves over a reply that landed meanwhile. `change` may throw an API
+// error to refuse; null means the session is gone.
+export function updateSession(
+  id: string,
+  change: (session: ConversationSession) => ConversationSession
+): Promise<ConversationSession | null> {
+  const next = updates.then(async () => {
+    const store = getSessionStore();
+    const session = await store.get(id);
+    if (!session) return null;
+    const changed = change(session);
+    await store.save(changed);
+    return changed;
+  });
+  updates = next.catch(() => {});
+  return next;
+}
+
+// Clears out expired sessions at most every SWEEP_INTERVAL_MS. Called when
+// a call starts; a failed sweep is logged and never blocks the call.
+export async function sweepExpiredSessions(now = Date.now()) {
+  const globalForSweep = globalThis as unknown as { lastSessionSweep?: number };
+  if (now - (globalForSweep.lastSessionSweep ?? 0) < SWEEP_INTERVAL_MS) return;
+  globalForSweep.lastSessionSweep = now;
+  try {
+    await getSessionStore().removeExpired(now);
+  } catch (err) {
+    console.error("Failed to remove expired sessions", err);
+  }
+}
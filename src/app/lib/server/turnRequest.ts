@@ -0,0 +1,176 @@
+import { NextResponse } from "next/server";
+import type { Account } from "../../types/account";
+import type { ConversationSession } from "../../types/session";
+import type { PatientTurnResult } from "../../types/turn";
+import { getSpeechToTextProvider } from "../ai";
+import { lastCallAction } from "../callActions";
+import { buildOutcome, isTerminalStatus } from "../scenarios";
+import { dropLastExchange } from "../turns";
+import type { StaffInput } from "./patientTurn";
+import { canUseCall } from "./auth";
+import { errorResponse } from "./errors";
+import { getSessionStore, updateSession } from "./sessionStore";
+import {
+  MAX_TEXT_LENGTH,
+  MAX_TURNS,
+  parseAudio,
+  parseCallAction,
+  parseTimingMs,
+} from "./validation";
+
+export type TurnRequest = {
+  session: ConversationSession;
+  input: StaffInput;
+  speak: boolean;
+};
+
+// Reads and validates the form both voice-turn routes accept. Returns the
+// session and the VA's input, or the error response to send back as-is.
+export async function readTurnRequest(
+  form: FormData,
+  account: Account
+): Promise<TurnRequest | NextResponse> {
+  // A turn is either recorded audio or, in typed practice, plain text.
+  const sessionId = form.get("sessionId");
+  const audioEntry = form.get("audio");
+  const textEntry = form.get("text");
+  const typedText = typeof textEntry === "string" ? textEntry.trim() : "";
+  const speak = form.get("tts") !== "false";
+
+  if (typeof sessionId !== "string" || !sessionId) {
+    return errorResponse("bad_input", "Missing sessionId");
+  }
+  if (!audioEntry && !typedText) {
+    return errorResponse("bad_input", "Send either audio or text");
+  }
+  if (typedText.length > MAX_TEXT_LENGTH) {
+    return errorResponse(
+      "bad_input",
+      `Typed turns are limited to ${MAX_TEXT_LENGTH} characters`
+    );
+  }
+
+  let audio: File | null = null;
+  if (!typedText) {
+    const check = parseAudio(audioEntry, {
+      allowText: getSpeechToTextProvider() === "mock",
+    });
+    if (!check.ok) {
+      return errorResponse("bad_input", "Invalid audio upload", check.errors);
+    }
+    audio = check.value;
+  }
+
+  // Client-measured timing for this line and the reply it answers.
+  const speechMs = parseTimingMs(form.get("speechMs"), "speechMs");
+  const responseDelayMs = parseTimingMs(
+    form.get("responseDelayMs"),
+    "responseDelayMs"
+  );
+  const replySpeechMs = parseTimingMs(form.get("replySpeechMs"), "replySpeechMs");
+  const timingErrors = [speechMs, responseDelayMs, replySpeechMs].flatMap(
+    (check) => (check.ok ? [] : check.errors)
+  );
+  if (timingErrors.length > 0) {
+    return errorResponse("bad_input", "Invalid timing", timingErrors);
+  }
+
+  // A hold, transfer or callback that goes with this line.
+  const actionType = form.get("action");
+  const action = actionType
+    ? parseCallAction({
+        type: actionType,
+        durationMs: form.get("holdMs"),
+        when: form.get("callbackTime"),
+      })
+    : null;
+  if (action && !action.ok) {
+    return errorResponse("bad_input", "Invalid call action", action.errors);
+  }
+
+  const session = await getSessionStore().get(sessionId);
+
+  if (!session) {
+    return errorResponse("session_not_found", "Session not found");
+  }
+
+  if (!canUseCall(account, session)) {
+    return errorResponse("forbidden", "This call belongs to another account");
+  }
+
+  if (session.endedAt || session.outcome) {
+    return errorResponse("call_ended", "This call has already ended");
+  }
+
+  // A correction of the VA's last line replaces that whole exchange. The
+  // session is only saved once the new reply succeeds.
+  if (form.get("replaceLast") === "true") {
+    const kept = dropLastExchange(session.turns);
+    if (!kept) {
+      return errorResponse("bad_input", "There is no earlier turn to replace");
+    }
+    session.turns = kept;
+  }
+
+  // Each exchange adds a VA line, a patient line and maybe a call event.
+  if (session.turns.length + (action ? 3 : 2) > MAX_TURNS) {
+    return errorResponse(
+      "bad_input",
+      `This call has reached the ${MAX_TURNS}-turn limit. End it to get a score.`
+    );
+  }
+
+  // The VA started talking while the patient's last reply was still playing.
+  if (form.get("interrupted") === "true") {
+    const last = session.turns[session.turns.length - 1];
+    if (last?.role === "patient") last.interrupted = true;
+  }
+
+  // How long the patient's last reply played before this line.
+  const replyMs = replySpeechMs.ok ? replySpeechMs.value : undefined;
+  const lastTurn = session.turns[session.turns.length - 1];
+  if (replyMs !== undefined && lastTurn?.role === "patient") {
+    lastTurn.timing = { speechMs: replyMs };
+  }
+
+  const speech = speechMs.ok ? speechMs.value : undefined;
+  const delay = responseDelayMs.ok ? responseDelayMs.value : undefined;
+  const timing =
+    speech === undefined
+      ? undefined
+      : {
+          speechMs: speech,
+          ...(delay !== undefined && { responseDelayMs: delay }),
+        };
+
+  const extras = { timing, action: action?.ok ? action.value : undefined };
+  return {
+    session,
+    input: audio ? { audio, ...extras } : { text: typedText, ...extras },
+    speak,
+  };
+}
+
+// Records a finished exchange on the session, ending it if the patient
+// booked or hung up, or the VA transferred them. It goes through
+// updateSession, because the reply can take a while and a slot booked on
+// the calendar in the meantime must not be written over.
+export async function saveTurnResult(
+  session: ConversationSession,
+  result: PatientTurnResult
+) {
+  await updateSession(session.id, (latest) => {
+    latest.turns = result.turns;
+    if (!latest.outcome) {
+      if (isTerminalStatus(result.meta.status)) {
+        latest.outcome = buildOutcome(
+          result.meta.status,
+          result.meta.bookedSlot
+        );
+      } else if (lastCallAction(result.turns)?.type === "transfer") {
+        latest.outcome = buildOutcome("transferred");
+      }
+    }
+    return latest;
+  });
+}
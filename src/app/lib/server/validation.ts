@@ -0,0 +1,605 @@
+import type { AccountRole } from "../../types/account";
+import type { TextSpan } from "../../types/annotation";
+import type { CallAction, InputMode, Turn } from "../../types/call";
+import type { CalendarSlot } from "../../types/calendar";
+import type { ClinicConfig } from "../../types/config";
+import type { Persona } from "../../types/persona";
+import type { RecordingTimeline } from "../../types/recording";
+import type { CallOutcome } from "../../types/scenario";
+import type { AnnotationInput } from "../annotations";
+import { checkAnnotation } from "../annotations";
+import { callActionTurn, MAX_CALLBACK_LENGTH } from "../callActions";
+import { parseClinicConfig } from "../clinicConfig";
+import { CALL_CONTEXT_FIELDS, SCENARIO_GOALS } from "../scenarios";
+
+// Runtime checks for request bodies. Each returns the value in its typed
+// shape or every problem found, so a client sees all of them at once.
+
+export const MAX_TURNS = 80; // VA and patient lines and call events together
+export const MAX_TEXT_LENGTH = 2000; // one typed VA line
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024; // transcription upload limit
+export const MAX_TIMING_MS = 10 * 60 * 1000; // one line, or one pause
+export const MAX_RECORDING_BYTES = 100 * 1024 * 1024; // a whole mixed call
+
+export const AUDIO_MIME_TYPES = [
+  "audio/webm",
+  "audio/ogg",
+  "audio/wav",
+  "audio/x-wav",
+  "audio/mpeg",
+  "audio/mp4",
+  "audio/x-m4a",
+];
+
+export type Checked<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function parseInputMode(value: unknown): Checked<InputMode> {
+  if (value === undefined) return { ok: true, value: "voice" };
+  if (value === "voice" || value === "text") return { ok: true, value };
+  return { ok: false, errors: [`"inputMode" must be "voice" or "text"`] };
+}
+
+const PERSONA_TEXT_FIELDS = [
+  "id",
+  "title",
+  "description",
+  "name",
+  "chiefComplaint",
+  "painDuration",
+  "insurance",
+  "personality",
+  "convinceBy",
+] as const;
+
+export function parsePersona(value: unknown): Checked<Persona> {
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["Persona must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  for (const field of PERSONA_TEXT_FIELDS) {
+    if (typeof value[field] !== "string") {
+      errors.push(`Persona "${field}" must be text`);
+    }
+  }
+  if (
+    typeof value.age !== "number" ||
+    !Number.isInteger(value.age) ||
+    value.age < 1 ||
+    value.age > 120
+  ) {
+    errors.push(`Persona "age" must be a whole number from 1 to 120`);
+  }
+  if (!SCENARIO_GOALS.some((g) => g.id === value.goalId)) {
+    errors.push(`Persona "goalId" is not a known scenario goal`);
+  }
+  if (
+    !Array.isArray(value.hiddenObjections) ||
+    value.hiddenObjections.some((o) => typeof o !== "string")
+  ) {
+    errors.push(`Persona "hiddenObjections" must be a list of text`);
+  }
+  if (value.availability !== undefined && typeof value.availability !== "string") {
+    errors.push(`Persona "availability" must be text`);
+  }
+  if (value.callContext !== undefined) {
+    const context = value.callContext;
+    if (
+      !isRecord(context) ||
+      Object.keys(CALL_CONTEXT_FIELDS).some(
+        (field) =>
+          context[field] !== undefined && typeof context[field] !== "string"
+      )
+    ) {
+      errors.push(`Persona "callContext" fields must be text`);
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: { ...(value as Persona), builtIn: value.builtIn === true },
+  };
+}
+
+export function parseTurns(value: unknown): Checked<Turn[]> {
+  if (!Array.isArray(value)) {
+    return { ok: false, errors: [`"turns" must be a list`] };
+  }
+  if (value.length > MAX_TURNS) {
+    return {
+      ok: false,
+      errors: [`A call can have at most ${MAX_TURNS} turns`],
+    };
+  }
+
+  const errors: string[] = [];
+  const turns: Turn[] = [];
+  value.forEach((turn, i) => {
+    if (!isRecord(turn)) {
+      errors.push(`Turn #${i + 1} must be an object`);
+      return;
+    }
+    if (turn.role === "event") {
+      const action = parseCallAction(turn.action);
+      if (!action.ok) {
+        errors.push(...action.errors.map((e) => `Turn #${i + 1}: ${e}`));
+        return;
+      }
+      // Event text is rebuilt from the checked action so it always matches.
+      turns.push(callActionTurn(action.value));
+      return;
+    }
+    if (turn.role !== "staff" && turn.role !== "patient") {
+      errors.push(`Turn #${i + 1} role must be "staff", "patient" or "event"`);
+      return;
+    }
+    if (typeof turn.text !== "string") {
+      errors.push(`Turn #${i + 1} text must be text`);
+      return;
+    }
+    turns.push({
+      role: turn.role,
+      text: turn.text,
+      ...(turn.interrupted === true && { interrupted: true }),
+    });
+  });
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: turns };
+}
+
+const OUTCOME_STATUSES: CallOutcome["status"][] = [
+  "booked",
+  "hung_up",
+  "ended_by_va",
+  "transferred",
+];
+
+// An optional call outcome, as the page reports it for scoring.
+export function parseOutcome(value: unknown): Checked<CallOutcome | undefined> {
+  if (value === undefined || value === null) {
+    return { ok: true, value: undefined };
+  }
+  if (!isRecord(value)) {
+    return { ok: false, errors: [`"outcome" must be an object`] };
+  }
+  const errors: string[] = [];
+  if (!OUTCOME_STATUSES.includes(value.status as CallOutcome["status"])) {
+    errors.push(
+      `"outcome.status" must be one of ${OUTCOME_STATUSES.join(", ")}`
+    );
+  }
+  if (typeof value.goalMet !== "boolean") {
+    errors.push(`"outcome.goalMet" must be true or false`);
+  }
+  if (value.bookedSlot !== null && typeof value.bookedSlot !== "string") {
+    errors.push(`"outcome.bookedSlot" must be text or null`);
+  }
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      status: value.status as CallOutcome["status"],
+      goalMet: value.goalMet as boolean,
+      bookedSlot: value.bookedSlot as string | null,
+    },
+  };
+}
+
+// `{ date: "YYYY-MM-DD", start: minutes after midnight }`.
+export function parseCalendarSlot(value: unknown): Checked<CalendarSlot> {
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["Slot must be a JSON object"] };
+  }
+  const errors: string[] = [];
+  if (
+    typeof value.date !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(value.date)
+  ) {
+    errors.push(`"date" must be a day like 2026-10-21`);
+  }
+  if (
+    typeof value.start !== "number" ||
+    !Number.isInteger(value.start) ||
+    value.start < 0 ||
+    value.start >= 24 * 60
+  ) {
+    errors.push(`"start" must be minutes after midnight`);
+  }
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: { date: value.date as string, start: value.start as number },
+  };
+}
+
+// A hold, transfer or callback, from JSON or the voice-turn form fields.
+export function parseCallAction(value: unknown): Checked<CallAction> {
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["Call action must be an object"] };
+  }
+  switch (value.type) {
+    case "hold": {
+      const duration = parseTimingMs(value.durationMs, "holdMs");
+      if (!duration.ok) return duration;
+      if (duration.value === undefined) {
+        return { ok: false, errors: [`A hold needs "holdMs"`] };
+      }
+      return { ok: true, value: { type: "hold", durationMs: duration.value } };
+    }
+    case "transfer":
+      return { ok: true, value: { type: "transfer" } };
+    case "callback": {
+      const when = typeof value.when === "string" ? value.when.trim() : "";
+      if (!when || when.length > MAX_CALLBACK_LENGTH) {
+        return {
+          ok: false,
+          errors: [
+            `A callback needs "callbackTime" of up to ${MAX_CALLBACK_LENGTH} characters`,
+          ],
+        };
+      }
+      return { ok: true, value: { type: "callback", when } };
+    }
+    default:
+      return {
+        ok: false,
+        errors: [`Call action must be "hold", "transfer" or "callback"`],
+      };
+  }
+}
+
+// An optional timing field (milliseconds) from FormData or JSON.
+export function parseTimingMs(
+  value: unknown,
+  field: string
+): Checked<number | undefined> {
+  if (value === null || value === undefined || value === "") {
+    return { ok: true, value: undefined };
+  }
+  const ms = typeof value === "string" ? Number(value) : value;
+  if (
+    typeof ms !== "number" ||
+    !Number.isFinite(ms) ||
+    ms < 0 ||
+    ms > MAX_TIMING_MS
+  ) {
+    return {
+      ok: false,
+      errors: [`"${field}" must be a number of milliseconds up to ${MAX_TIMING_MS}`],
+    };
+  }
+  return { ok: true, value: Math.round(ms) };
+}
+
+// `audio` straight from FormData: must be a non-empty recording of a type
+// the transcription provider accepts. `allowText` lets text/plain through
+// for the mock provider, which "transcribes" it to its own contents.
+export function parseAudio(
+  value: FormDataEntryValue | null,
+  { allowText = false } = {}
+): Checked<File> {
+  if (!(value instanceof File)) {
+    return { ok: false, errors: [`"audio" must be an uploaded file`] };
+  }
+
+  const errors: string[] = [];
+  const mimeType = value.type.split(";")[0].trim().toLowerCase();
+  if (
+    !AUDIO_MIME_TYPES.includes(mimeType) &&
+    !(allowText && mimeType === "text/plain")
+  ) {
+    errors.push(
+      `Audio type "${value.type || "unknown"}" is not supported; use one of ${AUDIO_MIME_TYPES.join(", ")}`
+    );
+  }
+  if (value.size === 0) {
+    errors.push("The audio file is empty");
+  } else if (value.size > MAX_AUDIO_BYTES) {
+    errors.push(
+      `Audio is larger than ${MAX_AUDIO_BYTES / (1024 * 1024)} MB`
+    );
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value };
+}
+
+export type RecordingUpload = { timeline: RecordingTimeline; audio: File };
+
+// A call's mixed recording from FormData: `audio`, one WAV track, and
+// `timeline`, JSON `{ clips, durationMs }` placing each line on it.
+export function parseRecordingUpload(
+  form: FormData,
+  turns: Turn[]
+): Checked<RecordingUpload> {
+  const errors: string[] = [];
+  const audio = form.get("audio");
+  if (!(audio instanceof File)) {
+    errors.push(`"audio" must be an uploaded file`);
+  } else if (!["audio/wav", "audio/x-wav"].includes(audio.type)) {
+    errors.push(`The recording must be a WAV file`);
+  } else if (audio.size === 0) {
+    errors.push("The recording is empty");
+  } else if (audio.size > MAX_RECORDING_BYTES) {
+    errors.push(
+      `The recording is larger than ${MAX_RECORDING_BYTES / (1024 * 1024)} MB`
+    );
+  }
+
+  let timeline: unknown = null;
+  try {
+    timeline = JSON.parse(String(form.get("timeline")));
+  } catch {
+    // reported below
+  }
+  const isMs = (value: unknown) => Number.isInteger(value) && Number(value) >= 0;
+  if (
+    !isRecord(timeline) ||
+    !isMs(timeline.durationMs) ||
+    !Array.isArray(timeline.clips)
+  ) {
+    errors.push(`"timeline" must be JSON { clips, durationMs }`);
+  } else {
+    timeline.clips.forEach((clip: unknown, i: number) => {
+      if (
+        !isRecord(clip) ||
+        !Number.isInteger(clip.turnIndex) ||
+        !turns[clip.turnIndex as number] ||
+        (clip.role !== "staff" && clip.role !== "patient") ||
+        !isMs(clip.startMs) ||
+        !isMs(clip.durationMs)
+      ) {
+        errors.push(`Clip #${i + 1} is not a line of this call`);
+      }
+    });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  const { clips, durationMs } = timeline as RecordingTimeline;
+  return {
+    ok: true,
+    value: {
+      audio: audio as File,
+      timeline: {
+        clips: clips.map(({ turnIndex, role, startMs, durationMs }) => ({
+          turnIndex,
+          role,
+          startMs,
+          durationMs,
+        })),
+        durationMs,
+      },
+    },
+  };
+}
+
+export type StartDetails = {
+  assignmentId?: string;
+  coaching?: boolean;
+  callDate?: string;
+};
+
+// What the page knows about a call as it starts: the assignment it is for,
+// `coaching: false` from a `?coaching=off` link, and the VA's own date
+// (`YYYY-MM-DD`), so the calendar matches the one the page showed.
+export function parseStartDetails(value: unknown): Checked<StartDetails> {
+  const body = isRecord(value) ? value : {};
+  const errors: string[] = [];
+  if (
+    body.assignmentId !== undefined &&
+    (typeof body.assignmentId !== "string" || !body.assignmentId)
+  ) {
+    errors.push(`"assignmentId" must be an assignment id`);
+  }
+  if (body.coaching !== undefined && typeof body.coaching !== "boolean") {
+    errors.push(`"coaching" must be true or false`);
+  }
+  if (
+    body.callDate !== undefined &&
+    (typeof body.callDate !== "string" ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(body.callDate))
+  ) {
+    errors.push(`"callDate" must be a YYYY-MM-DD date`);
+  }
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      ...(body.assignmentId !== undefined && {
+        assignmentId: body.assignmentId as string,
+      }),
+      ...(body.coaching !== undefined && { coaching: body.coaching as boolean }),
+      ...(body.callDate !== undefined && { callDate: body.callDate as string }),
+    },
+  };
+}
+
+const USERNAME_RE = /^[a-z0-9._-]{3,32}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 200;
+const MAX_DISPLAY_NAME_LENGTH = 60;
+const MAX_NOTE_LENGTH = 500;
+
+export type SignIn = { username: string; password: string };
+
+export function parseSignIn(value: unknown): Checked<SignIn> {
+  if (
+    !isRecord(value) ||
+    typeof value.username !== "string" ||
+    typeof value.password !== "string"
+  ) {
+    return { ok: false, errors: [`Send "username" and "password"`] };
+  }
+  return {
+    ok: true,
+    value: {
+      username: value.username.trim().toLowerCase(),
+      password: value.password,
+    },
+  };
+}
+
+export type NewAccount = SignIn & { displayName: string; role: AccountRole };
+
+export function parseNewAccount(value: unknown): Checked<NewAccount> {
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["Account must be a JSON object"] };
+  }
+  const errors: string[] = [];
+  const username =
+    typeof value.username === "string" ? value.username.trim().toLowerCase() : "";
+  if (!USERNAME_RE.test(username)) {
+    errors.push(
+      `"username" must be 3-32 letters, digits, dots, dashes or underscores`
+    );
+  }
+  const displayName =
+    typeof value.displayName === "string" ? value.displayName.trim() : "";
+  if (!displayName || displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+    errors.push(
+      `"displayName" is required, up to ${MAX_DISPLAY_NAME_LENGTH} characters`
+    );
+  }
+  const password = typeof value.password === "string" ? value.password : "";
+  if (
+    password.length < MIN_PASSWORD_LENGTH ||
+    password.length > MAX_PASSWORD_LENGTH
+  ) {
+    errors.push(`"password" must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (value.role !== "trainer" && value.role !== "va") {
+    errors.push(`"role" must be "trainer" or "va"`);
+  }
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: { username, displayName, password, role: value.role as AccountRole },
+  };
+}
+
+export type NewAssignment = {
+  vaId: string;
+  persona: Persona;
+  dueDate: string;
+  note?: string;
+  coaching?: boolean;
+};
+
+export function parseNewAssignment(value: unknown): Checked<NewAssignment> {
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["Assignment must be a JSON object"] };
+  }
+  const errors: string[] = [];
+  if (typeof value.vaId !== "string" || !value.vaId) {
+    errors.push(`"vaId" must be a VA's account id`);
+  }
+  const persona = parsePersona(value.persona);
+  if (!persona.ok) errors.push(...persona.errors);
+  if (
+    typeof value.dueDate !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(value.dueDate)
+  ) {
+    errors.push(`"dueDate" must be a day like 2026-10-21`);
+  }
+  const note = typeof value.note === "string" ? value.note.trim() : "";
+  if (value.note !== undefined && typeof value.note !== "string") {
+    errors.push(`"note" must be text`);
+  } else if (note.length > MAX_NOTE_LENGTH) {
+    errors.push(`"note" must be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  if (value.coaching !== undefined && typeof value.coaching !== "boolean") {
+    errors.push(`"coaching" must be true or false`);
+  }
+  if (errors.length > 0 || !persona.ok) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      vaId: value.vaId as string,
+      persona: persona.value,
+      dueDate: value.dueDate as string,
+      ...(note && { note }),
+      ...(value.coaching === false && { coaching: false }),
+    },
+  };
+}
+
+const MAX_PROFILE_NAME_LENGTH = 80;
+
+export type ClinicProfileInput = { name: string; config: ClinicConfig };
+
+// `{ name, config }` for a clinic profile. The name defaults to the clinic's.
+export function parseClinicProfile(
+  value: unknown
+): Checked<ClinicProfileInput> {
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["Clinic profile must be a JSON object"] };
+  }
+  const errors: string[] = [];
+  const config = parseClinicConfig(value.config);
+  if (!config.ok) errors.push(...config.errors);
+  if (value.name !== undefined && typeof value.name !== "string") {
+    errors.push(`"name" must be text`);
+  }
+  const name =
+    (typeof value.name === "string" ? value.name.trim() : "") ||
+    (config.ok ? config.config.clinicName.trim() : "");
+  if (config.ok && !name) {
+    errors.push(`Give the profile a "name" or the clinic a name`);
+  } else if (name.length > MAX_PROFILE_NAME_LENGTH) {
+    errors.push(`"name" must be at most ${MAX_PROFILE_NAME_LENGTH} characters`);
+  }
+  if (errors.length > 0 || !config.ok) return { ok: false, errors };
+  return { ok: true, value: { name, config: config.config } };
+}
+
+function isTextSpan(value: unknown): value is TextSpan {
+  return (
+    isRecord(value) &&
+    Number.isInteger(value.start) &&
+    Number.isInteger(value.end)
+  );
+}
+
+// `{ turnIndex, span?, label?, comment? }` for a new comment on a saved
+// call, checked against the call's turns.
+export function parseAnnotationInput(
+  value: unknown,
+  turns: Turn[]
+): Checked<AnnotationInput> {
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["Annotation must be a JSON object"] };
+  }
+  const errors: string[] = [];
+  if (!Number.isInteger(value.turnIndex)) {
+    errors.push(`"turnIndex" must be the index of a line`);
+  }
+  if (value.span !== undefined && !isTextSpan(value.span)) {
+    errors.push(`"span" must be { start, end }`);
+  }
+  for (const field of ["label", "comment"]) {
+    if (value[field] !== undefined && typeof value[field] !== "string") {
+      errors.push(`"${field}" must be text`);
+    }
+  }
+  if (errors.length > 0) return { ok: false, errors };
+
+  const label = (value.label as string | undefined)?.trim();
+  const comment = (value.comment as string | undefined)?.trim();
+  const input: AnnotationInput = {
+    turnIndex: value.turnIndex as number,
+    ...(value.span !== undefined && { span: value.span as TextSpan }),
+    ...(label && { label }),
+    ...(comment && { comment }),
+  };
+  const problems = checkAnnotation(turns, input);
+  if (problems.length > 0) return { ok: false, errors: problems };
+  return { ok: true, value: input };
+}
@@ -0,0 +1,114 @@
+import type { Turn } from "../types/call";
+import type { SpeechMetrics, StaffTurnMetrics } from "../types/speechMetrics";
+
+// Pure, so the server can return metrics when the call ends and the browser
+// can work them out itself if that request fails.
+
+// "like" only counts when it isn't doing a job in the sentence ("would you
+// like", "sounds like", "feel like").
+const FILLERS: { label: string; pattern: RegExp }[] = [
+  { label: "um", pattern: /\b(um+|umm+|erm)\b/gi },
+  { label: "uh", pattern: /\b(uh+|er|ah)\b/gi },
+  {
+    label: "like",
+    pattern:
+      /\b(?<!(?:would|you'd|i'd|we'd|you|i|we|they|looks?|feels?|sounds?|seems?|just|something|anything|more|much)\s)like\b(?!\s+(?:to|that|this)\b)/gi,
+  },
+  { label: "you know", pattern: /\byou know\b(?!\s+(?:what|if|when|where|how|that))/gi },
+  { label: "I mean", pattern: /\bi mean\b/gi },
+  { label: "basically", pattern: /\bbasically\b/gi },
+  { label: "kind of", pattern: /\b(kind|sort) of\b/gi },
+];
+
+function countWords(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function countFillers(text: string) {
+  const counts: Record<string, number> = {};
+  for (const { label, pattern } of FILLERS) {
+    const found = text.match(pattern)?.length ?? 0;
+    if (found > 0) counts[label] = found;
+  }
+  return counts;
+}
+
+function perMinute(words: number, ms: number) {
+  return ms > 0 ? Math.round((words / ms) * 60000) : null;
+}
+
+function sum(values: number[]) {
+  return values.reduce((total, v) => total + v, 0);
+}
+
+export function computeSpeechMetrics(turns: Turn[]): SpeechMetrics {
+  const fillers: Record<string, number> = {};
+
+  const staffTurns: StaffTurnMetrics[] = turns.flatMap((turn, turnIndex) => {
+    if (turn.role !== "staff") return [];
+    const words = countWords(turn.text);
+    const turnFillers = countFillers(turn.text);
+    for (const [label, n] of Object.entries(turnFillers)) {
+      fillers[label] = (fillers[label] ?? 0) + n;
+    }
+    const speechMs = turn.timing?.speechMs ?? null;
+    return [
+      {
+        turnIndex,
+        words,
+        speechMs,
+        wordsPerMinute: speechMs === null ? null : perMinute(words, speechMs),
+        fillers: sum(Object.values(turnFillers)),
+        responseDelayMs: turn.timing?.responseDelayMs ?? null,
+      },
+    ];
+  });
+
+  const timed = staffTurns.filter((t) => t.speechMs !== null);
+  const talkMs = sum(timed.map((t) => t.speechMs ?? 0));
+  const listenMs = sum(
+    turns.map((t) => (t.role === "patient" ? t.timing?.speechMs ?? 0 : 0))
+  );
+  const staffWords = sum(staffTurns.map((t) => t.words));
+  const patientWords = sum(
+    turns.map((t) => (t.role === "patient" ? countWords(t.text) : 0))
+  );
+
+  const byTime = talkMs > 0 && listenMs > 0;
+  const talkTotal = byTime ? talkMs + listenMs : staffWords + patientWords;
+
+  const delays = staffTurns
+    .map((t) => t.responseDelayMs)
+    .filter((d): d is number => d !== null);
+
+  // Longest by time when lines were timed, by words otherwise.
+  const longestMonologue = staffTurns.reduce<StaffTurnMetrics | null>(
+    (longest, t) => {
+      if (!longest) return t;
+      return (t.speechMs ?? 0) > (longest.speechMs ?? 0) ||
+        (t.speechMs === longest.speechMs && t.words > longest.words)
+        ? t
+        : longest;
+    },
+    null
+  );
+
+  return {
+    turns: staffTurns,
+    wordsPerMinute: perMinute(
+      sum(timed.map((t) => t.words)),
+      talkMs
+    ),
+    fillerCount: sum(Object.values(fillers)),
+    fillers,
+    talkRatio: talkTotal > 0 ? (byTime ? talkMs : staffWords) / talkTotal : null,
+    talkRatioBasis: byTime ? "time" : "words",
+    longestMonologue,
+    averageResponseDelayMs:
+      delays.length > 0 ? Math.round(sum(delays) / delays.length) : null,
+  };
+}
+
+export function formatSeconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
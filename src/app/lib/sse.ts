@@ -0,0 +1,36 @@
+import type { TurnStreamEvent } from "../types/turn";
+
+// Reads a server-sent event stream from a fetch() response. EventSource only
+// supports GET, and voice turns are POSTed with audio attached.
+export async function readTurnStream(
+  res: Response,
+  onEvent: (event: TurnStreamEvent) => void
+) {
+  if (!res.body) throw new Error("Response has no body to stream");
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line.
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      let type = "message";
+      let data = "";
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) type = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+
+      onEvent({ type, ...JSON.parse(data) } as TurnStreamEvent);
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import type { Turn } from "../types/call";
+
+// Removes the last VA line, the call event that went with it and the
+// patient reply that followed, or returns null when the VA hasn't said
+// anything yet.
+export function dropLastExchange(turns: Turn[]): Turn[] | null {
+  const i = turns.map((t) => t.role).lastIndexOf("staff");
+  if (i === -1) return null;
+  return turns[i - 1]?.role === "event" ? turns.slice(0, i - 1) : turns.slice(0, i);
+}
+
+export function markLastPatientInterrupted(turns: Turn[]) {
+  const i = turns.map((t) => t.role).lastIndexOf("patient");
+  if (i === -1) return turns;
+  return turns.map((t, j) => (j === i ? { ...t, interrupted: true } : t));
+}
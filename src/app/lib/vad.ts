@@ -0,0 +1,80 @@
+// Voice activity detection for hands-free calls. Watches the loudness of a
+// microphone stream and reports when the VA starts and stops speaking.
+
+export type VadSettings = {
+  threshold: number; // RMS level (0–1) that counts as speech
+  silenceMs: number; // quiet this long ends the turn
+};
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  threshold: 0.02,
+  silenceMs: 1200,
+};
+
+// Loud for at least this long before it counts as speech, so coughs and
+// clicks don't start a turn.
+const MIN_SPEECH_MS = 150;
+const POLL_MS = 50;
+
+export type VoiceActivityHandlers = {
+  onSpeechStart(): void;
+  onSpeechEnd(): void;
+};
+
+export interface VoiceActivityDetector {
+  setSettings(settings: VadSettings): void;
+  stop(): void;
+}
+
+// Does not stop the stream's tracks: the same stream feeds the recorder.
+export function createVoiceActivityDetector(
+  stream: MediaStream,
+  initialSettings: VadSettings,
+  handlers: VoiceActivityHandlers
+): VoiceActivityDetector {
+  let settings = initialSettings;
+
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  let speaking = false;
+  let loudSince: number | null = null;
+  let lastLoud = 0;
+
+  const timer = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const s of samples) sum += s * s;
+    const level = Math.sqrt(sum / samples.length);
+    const now = performance.now();
+
+    if (level >= settings.threshold) {
+      lastLoud = now;
+      loudSince ??= now;
+      if (!speaking && now - loudSince >= MIN_SPEECH_MS) {
+        speaking = true;
+        handlers.onSpeechStart();
+      }
+      return;
+    }
+
+    loudSince = null;
+    if (speaking && now - lastLoud >= settings.silenceMs) {
+      speaking = false;
+      handlers.onSpeechEnd();
+    }
+  }, POLL_MS);
+
+  return {
+    setSettings(next) {
+      settings = next;
+    },
+    stop() {
+      window.clearInterval(timer);
+      context.close().catch(() => {});
+    },
+  };
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import type { CallContext, Persona } from "../types/persona";
+import type { ScenarioGoalId } from "../types/scenario";
+import { blankPersona, clonePersona, personaStore } from "../lib/personas";
+import {
+  CALL_CONTEXT_FIELDS,
+  getScenarioGoal,
+  SCENARIO_GOALS,
+} from "../lib/scenarios";
+
+type TextField = Exclude<
+  keyof Persona,
+  | "id"
+  | "builtIn"
+  | "goalId"
+  | "age"
+  | "hiddenObjections"
+  | "callContext"
+  | "availability"
+>;
+
+const TEXT_FIELDS: { field: TextField; label: string; rows?: number; placeholder?: string }[] = [
+  { field: "title", label: "Persona Title", placeholder: "e.g. Worried Parent" },
+  { field: "description", label: "Description for trainers", rows: 2 },
+  { field: "name", label: "Patient Name" },
+  { field: "chiefComplaint", label: "Chief Complaint", placeholder: "e.g. Lower back pain" },
+  { field: "painDuration", label: "How long they've had it", placeholder: "e.g. Six weeks" },
+  { field: "insurance", label: "Insurance Situation", rows: 2 },
+  { field: "personality", label: "Personality", rows: 2 },
+  { field: "convinceBy", label: "What it takes to convince them", rows: 2 },
+];
+
+// ?id=<persona> edits a custom persona, ?from=<persona> clones any persona,
+// and no parameter starts a blank one.
+export default function PersonaEditorPage() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const editId = searchParams.get("id");
+  const fromId = searchParams.get("from");
+
+  const [persona, setPersona] = useState<Persona>(blankPersona);
+  const [error, setError] = useState<string | null>(null);
+  const goal = getScenarioGoal(persona.goalId);
+
+  useEffect(() => {
+    const sourceId = editId ?? fromId;
+    if (!sourceId) return;
+    personaStore
+      .get(sourceId)
+      .then((found) => {
+        if (!found) {
+          setError("That persona no longer exists.");
+        } else if (fromId || found.builtIn) {
+          setPersona(clonePersona(found));
+        } else {
+          setPersona(found);
+        }
+      })
+      .catch((err) => console.error("Failed to load persona", err));
+  }, [editId, fromId]);
+
+  function handleChange(field: TextField, value: string) {
+    setPersona((prev) => ({ ...prev, [field]: value }));
+  }
+
+  function handleContextChange(field: keyof CallContext, value: string) {
+    setPersona((prev) => ({
+      ...prev,
+      callContext: { ...prev.callContext, [field]: value },
+    }));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      const callContext = Object.fromEntries(
+        goal.contextFields.map((field) => [
+          field,
+          persona.callContext?.[field]?.trim() ?? "",
+        ])
+      ) as CallContext;
+      await personaStore.save({
+        ...persona,
+        callContext: goal.contextFields.length > 0 ? callContext : undefined,
+        availability: persona.availability?.trim() || undefined,
+        hiddenObjections: persona.hiddenObjections
+          .map((o) => o.trim())
+          .filter(Boolean),
+      });
+      router.push("/home");
+    } catch (err) {
+      console.error("Failed to save persona", err);
+      setError("Could not save this persona.");
+    }
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-6 bg-slate-50">
+      <div className="w-full max-w-2xl rounded-xl border bg-white p-6 shadow-md">
+        <h1 className="text-2xl font-bold mb-4">
+          {editId ? "Edit Persona" : "New Persona"}
+        </h1>
+        <p className="text-sm text-slate-600 mb-6">
+          Describe the caller the AI should play. Hidden objections only come up
+          when the conversation gives the patient a reason to raise them.
+        </p>
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Scenario Goal
+            </label>
+            <select
+              className="w-full rounded border px-3 py-2 text-sm bg-white"
+              value={persona.goalId}
+              onChange={(e) =>
+                setPersona((prev) => ({
+                  ...prev,
+                  goalId: e.target.value as ScenarioGoalId,
+                }))
+              }
+            >
+              {SCENARIO_GOALS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                  {option.direction === "outbound" && " (outbound)"}
+                </option>
+              ))}
+            </select>
+            {goal.direction === "outbound" && (
+              <p className="mt-1 text-xs text-slate-500">
+                The VA places this call and opens it; the patient picks up
+                not knowing who is calling.
+              </p>
+            )}
+          </div>
+
+          {goal.contextFields.map((field) => (
+            <div key={field}>
+              <label className="block text-sm font-medium mb-1">
+                {CALL_CONTEXT_FIELDS[field].label}
+              </label>
+              <input
+                type="text"
+                className="w-full rounded border px-3 py-2 text-sm"
+                placeholder={CALL_CONTEXT_FIELDS[field].placeholder}
+                value={persona.callContext?.[field] ?? ""}
+                onChange={(e) => handleContextChange(field, e.target.value)}
+                required
+              />
+            </div>
+          ))}
+
+          {TEXT_FIELDS.map(({ field, label, rows, placeholder }) => (
+            <div key={field}>
+              <label className="block text-sm font-medium mb-1">{label}</label>
+              {rows ? (
+                <textarea
+                  className="w-full rounded border px-3 py-2 text-sm"
+                  rows={rows}
+                  placeholder={placeholder}
+                  value={persona[field]}
+                  onChange={(e) => handleChange(field, e.target.value)}
+                  required
+                />
+              ) : (
+                <input
+                  type="text"
+                  className="w-full rounded border px-3 py-2 text-sm"
+                  placeholder={placeholder}
+                  value={persona[field]}
+                  onChange={(e) => handleChange(field, e.target.value)}
+                  required
+                />
+              )}
+            </div>
+          ))}
+
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              When they can come in
+            </label>
+            <input
+              type="text"
+              className="w-full rounded border px-3 py-2 text-sm"
+              placeholder="e.g. Weekday mornings, not Wednesdays"
+              value={persona.availability ?? ""}
+              onChange={(e) =>
+                setPersona((prev) => ({ ...prev, availability: e.target.value }))
+              }
+            />
+            <p className="mt-1 text-xs text-slate-500">
+              The patient turns down appointment times outside this. Leave
+              blank for a patient who can make any time the clinic is open.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Age</label>
+            <input
+              type="number"
+              min={1}
+              max={120}
+              className="w-full rounded border px-3 py-2 text-sm"
+              value={persona.age}
+              onChange={(e) =>
+                setPersona((prev) => ({
+                  ...prev,
+                  age: Number(e.target.value || 0),
+                }))
+              }
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Hidden Objections (one per line)
+            </label>
+            <textarea
+              className="w-full rounded border px-3 py-2 text-sm"
+              rows={3}
+              placeholder={"e.g. Needs to ask their spouse first"}
+              value={persona.hiddenObjections.join("\n")}
+              onChange={(e) =>
+                setPersona((prev) => ({
+                  ...prev,
+                  hiddenObjections: e.target.value.split("\n"),
+                }))
+              }
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="mt-2 rounded bg-black px-4 py-2 text-sm font-semibold text-white"
+            >
+              Save Persona
+            </button>
+            <button
+              type="button"
+              onClick={() => router.push("/home")}
+              className="mt-2 rounded border px-4 py-2 text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </main>
+  );
+}
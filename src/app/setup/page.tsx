@@ -1,30 +1,102 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
-import type { ClinicConfig } from "../types/config";
-
-
-const defaultConfig: ClinicConfig = {
-  clinicName: "",
-  doctorName: "",
-  firstVisitCost: 0,
-  address: "",
-  officeHours: "",
-  services: {
-    decompression: false,
-    classIVLaser: false,
-    shockwave: false,
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import type {
+  ClinicConfig,
+  ClinicFaq,
+  ClinicPolicy,
+  ClinicScriptItem,
+  ClinicService,
+} from "../types/config";
+import {
+  blankClinicConfig,
+  blankScriptItem,
+  blankService,
+} from "../lib/clinicConfig";
+import { clinicProfiles } from "../lib/clinicProfiles";
+import { newId } from "../lib/ids";
+import { isScheduleEmpty, parseOfficeHours } from "../lib/officeHours";
+import EditableList, { type EditableField } from "../components/EditableList";
+import TrainerOnly from "../components/TrainerOnly";
+
+type ScalarField = Exclude<
+  keyof ClinicConfig,
+  "version" | "services" | "insurance" | "policies" | "faqs" | "script"
+>;
+
+const SERVICE_FIELDS: EditableField<ClinicService>[] = [
+  { key: "name", label: "Name", placeholder: "e.g. Spinal Decompression" },
+  { key: "description", label: "Description", type: "textarea" },
+  { key: "price", label: "Price ($, blank if not quoted by phone)", type: "price" },
+];
+
+const POLICY_FIELDS: EditableField<ClinicPolicy>[] = [
+  { key: "title", label: "Policy", placeholder: "e.g. Cancellations" },
+  {
+    key: "details",
+    label: "Details",
+    type: "textarea",
+    placeholder: "e.g. Please give 24 hours notice. No fee for the first missed visit.",
+  },
+];
+
+const FAQ_FIELDS: EditableField<ClinicFaq>[] = [
+  { key: "question", label: "Question", placeholder: "e.g. Is there parking?" },
+  {
+    key: "answer",
+    label: "Answer",
+    type: "textarea",
+    placeholder: "e.g. Free parking behind the building.",
+  },
+];
+
+const SCRIPT_FIELDS: EditableField<ClinicScriptItem>[] = [
+  { key: "label", label: "Item", placeholder: "e.g. Ask for the caller's phone number" },
+  {
+    key: "example",
+    label: "Example wording",
+    type: "textarea",
+    placeholder: "e.g. What's the best number to reach you? | Can I grab your number?",
   },
-};
+];
 
 export default function SetupPage() {
-  const [config, setConfig] = useState<ClinicConfig>(defaultConfig);
+  return (
+    <TrainerOnly>
+      <ClinicSetup />
+    </TrainerOnly>
+  );
+}
+
+// ?id=<profile> edits a saved clinic profile; no parameter creates one.
+function ClinicSetup() {
+  const searchParams = useSearchParams();
+  const editId = searchParams.get("id");
+
+  const [config, setConfig] = useState<ClinicConfig>(blankClinicConfig);
+  const [profileName, setProfileName] = useState("");
   const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const router = useRouter();
 
+  useEffect(() => {
+    if (!editId) return;
+    clinicProfiles
+      .get(editId)
+      .then((found) => {
+        if (!found) {
+          setError("That clinic profile no longer exists.");
+          return;
+        }
+        setProfileName(found.name);
+        setConfig(found.config);
+      })
+      .catch((err) => console.error("Failed to load clinic profile", err));
+  }, [editId]);
+
   function handleChange(
-    field: keyof ClinicConfig,
+    field: ScalarField,
     value: string | number
   ) {
     setSaved(false);
@@ -34,47 +106,93 @@ export default function SetupPage() {
     }));
   }
 
-  function handleServiceChange(
-    serviceKey: keyof ClinicConfig["services"]
+  function handleListChange<
+    K extends "services" | "policies" | "faqs" | "script"
+  >(
+    field: K,
+    items: ClinicConfig[K]
   ) {
+    setSaved(false);
+    setConfig((prev: ClinicConfig) => ({ ...prev, [field]: items }));
+  }
+
+  function handleInsuranceChange(insurance: Partial<ClinicConfig["insurance"]>) {
     setSaved(false);
     setConfig((prev: ClinicConfig) => ({
       ...prev,
-      services: {
-        ...prev.services,
-        [serviceKey]: !prev.services[serviceKey],
-      },
+      insurance: { ...prev.insurance, ...insurance },
     }));
   }
 
-  function handleSubmit(e: React.FormEvent) {
+  async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
 
-    if (typeof window !== "undefined") {
-      window.localStorage.setItem(
-        "clinicConfig",
-        JSON.stringify(config)
-      );
+    const cleaned: ClinicConfig = {
+      ...config,
+      services: config.services.filter((s) => s.name.trim()),
+      insurance: {
+        ...config.insurance,
+        accepted: config.insurance.accepted
+          .map((a) => a.trim())
+          .filter(Boolean),
+      },
+      policies: config.policies.filter((p) => p.title.trim()),
+      faqs: config.faqs.filter((f) => f.question.trim()),
+      script: config.script.filter((s) => s.label.trim() && s.example.trim()),
+    };
+
+    try {
+      const profile = await clinicProfiles.save({
+        id: editId ?? "",
+        name: profileName,
+        updatedAt: "",
+        config: cleaned,
+      });
+      // A new clinic is most likely the one about to be trained on.
+      if (!editId) await clinicProfiles.setActive(profile.id);
+    } catch (err) {
+      console.error("Failed to save clinic profile", err);
+      setError("Could not save this clinic.");
+      return;
     }
 
-    console.log("Clinic config saved:", config);
     setSaved(true);
 
     setTimeout(() => {
-      router.push("/home");
+      router.push("/clinics");
     }, 800);
   }
 
   return (
     <main className="min-h-screen flex items-center justify-center p-6 bg-slate-50">
       <div className="w-full max-w-2xl rounded-xl border bg-white p-6 shadow-md">
-        <h1 className="text-2xl font-bold mb-4">Clinic Setup</h1>
+        <h1 className="text-2xl font-bold mb-4">
+          {editId ? "Edit Clinic" : "Clinic Setup"}
+        </h1>
         <p className="text-sm text-slate-600 mb-6">
           Enter the clinic details below. Your VA will use this info when
           handling calls, scheduling, and explaining care plans.
         </p>
 
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Profile Name
+            </label>
+            <input
+              type="text"
+              className="w-full rounded border px-3 py-2 text-sm"
+              placeholder={config.clinicName || "Defaults to the clinic name"}
+              value={profileName}
+              onChange={(e) => {
+                setSaved(false);
+                setProfileName(e.target.value);
+              }}
+            />
+          </div>
+
           <div>
             <label className="block text-sm font-medium mb-1">
               Clinic Name
@@ -153,44 +271,95 @@ export default function SetupPage() {
               }
               required
             />
+            {config.officeHours.trim() &&
+              isScheduleEmpty(parseOfficeHours(config.officeHours)) && (
+                <p className="mt-1 text-xs text-amber-700">
+                  These hours can&apos;t be read as a weekly schedule, so the
+                  appointment calendar will have no open slots and hours
+                  won&apos;t be fact-checked. Write them like &ldquo;Mon–Fri
+                  9am–5pm, Sat 9–12&rdquo;.
+                </p>
+              )}
           </div>
 
           <div>
             <p className="block text-sm font-medium mb-1">
               Services Offered
             </p>
-            <div className="flex flex-col gap-2 text-sm">
-              <label className="inline-flex items-center gap-2">
-                <input
-                  type="checkbox"
-                  checked={config.services.decompression}
-                  onChange={() =>
-                    handleServiceChange("decompression")
-                  }
-                />
-                <span>Spinal Decompression</span>
-              </label>
-              <label className="inline-flex items-center gap-2">
-                <input
-                  type="checkbox"
-                  checked={config.services.classIVLaser}
-                  onChange={() =>
-                    handleServiceChange("classIVLaser")
-                  }
-                />
-                <span>Class IV Laser Therapy</span>
-              </label>
-              <label className="inline-flex items-center gap-2">
-                <input
-                  type="checkbox"
-                  checked={config.services.shockwave}
-                  onChange={() =>
-                    handleServiceChange("shockwave")
-                  }
-                />
-                <span>Shockwave Therapy</span>
-              </label>
-            </div>
+            <EditableList
+              items={config.services}
+              fields={SERVICE_FIELDS}
+              onChange={(items) => handleListChange("services", items)}
+              newItem={blankService}
+              addLabel="+ Add service"
+              emptyText="No services beyond chiropractic care yet."
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Accepted Insurance (one per line)
+            </label>
+            <textarea
+              className="w-full rounded border px-3 py-2 text-sm"
+              rows={3}
+              placeholder={"e.g. Blue Cross PPO\nAetna"}
+              value={config.insurance.accepted.join("\n")}
+              onChange={(e) =>
+                handleInsuranceChange({ accepted: e.target.value.split("\n") })
+              }
+            />
+            <input
+              type="text"
+              className="mt-2 w-full rounded border px-3 py-2 text-sm"
+              placeholder="Notes, e.g. Out of network for everything else"
+              value={config.insurance.notes}
+              onChange={(e) => handleInsuranceChange({ notes: e.target.value })}
+            />
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium mb-1">Policies</p>
+            <EditableList
+              items={config.policies}
+              fields={POLICY_FIELDS}
+              onChange={(items) => handleListChange("policies", items)}
+              newItem={() => ({ id: newId(), title: "", details: "" })}
+              addLabel="+ Add policy"
+              emptyText="Cancellation, no-show and payment policies callers ask about."
+            />
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium mb-1">FAQs</p>
+            <EditableList
+              items={config.faqs}
+              fields={FAQ_FIELDS}
+              onChange={(items) => handleListChange("faqs", items)}
+              newItem={() => ({ id: newId(), question: "", answer: "" })}
+              addLabel="+ Add FAQ"
+              emptyText="Parking, what to wear, what happens at the first visit…"
+            />
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium mb-1">Call Script</p>
+            <p className="text-xs text-slate-500 mb-2">
+              What the VA must say on every call, in order. Items tick off
+              when a line comes close to the example wording. Separate
+              alternative wordings with |, and use {"{clinic}"},{" "}
+              {"{doctor}"}, {"{price}"}, {"{day}"}, {"{time}"} or{" "}
+              {"{name}"} (the VA&apos;s own name) for details that change.
+            </p>
+            <EditableList
+              items={config.script}
+              fields={SCRIPT_FIELDS}
+              onChange={(items) => handleListChange("script", items)}
+              newItem={blankScriptItem}
+              addLabel="+ Add script item"
+              emptyText="No required phrases for this clinic."
+              reorderable
+            />
           </div>
 
           <button
@@ -202,7 +371,7 @@ export default function SetupPage() {
 
           {saved && (
             <p className="text-sm text-emerald-600 mt-2">
-              Setup saved! Redirecting you to the main app…
+              Setup saved! Redirecting you to your clinics…
             </p>
           )}
         </form>
@@ -0,0 +1,359 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { Account, AccountRole, Assignment } from "../types/account";
+import type { Persona } from "../types/persona";
+import type { NewAccountInput } from "../lib/accounts";
+import {
+  createAccount,
+  createAssignment,
+  isOverdue,
+  listAccounts,
+  listAssignments,
+  removeAssignment,
+  ROLE_LABELS,
+} from "../lib/accounts";
+import { addDays, describeDate, toDateKey } from "../lib/calendar";
+import { personaStore } from "../lib/personas";
+import TrainerOnly from "../components/TrainerOnly";
+
+export default function TeamPage() {
+  return (
+    <TrainerOnly>
+      <Team />
+    </TrainerOnly>
+  );
+}
+
+const BLANK_ACCOUNT: NewAccountInput = {
+  username: "",
+  displayName: "",
+  password: "",
+  role: "va",
+};
+
+function loadTeam() {
+  return Promise.all([listAccounts(), listAssignments()]);
+}
+
+// Accounts, and the scenarios each VA has been given.
+function Team() {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newAccount, setNewAccount] = useState(BLANK_ACCOUNT);
+  const [vaId, setVaId] = useState("");
+  const [personaId, setPersonaId] = useState("");
+  const [dueDate, setDueDate] = useState(() =>
+    addDays(toDateKey(new Date()), 7)
+  );
+  const [note, setNote] = useState("");
+  const [coaching, setCoaching] = useState(true);
+
+  useEffect(() => {
+    loadTeam()
+      .then(([accountList, assignmentList]) => {
+        setAccounts(accountList);
+        setAssignments(assignmentList);
+      })
+      .catch((err) => setError((err as Error).message));
+    personaStore
+      .list()
+      .then(setPersonas)
+      .catch((err) => console.error("Failed to load personas", err));
+  }, []);
+
+  const vas = accounts.filter((a) => a.role === "va");
+  const nameOf = (id: string) =>
+    accounts.find((a) => a.id === id)?.displayName ?? "Removed account";
+
+  async function handleAddAccount(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    try {
+      const account = await createAccount(newAccount);
+      setAccounts(
+        [...accounts, account].sort((a, b) =>
+          a.displayName.localeCompare(b.displayName)
+        )
+      );
+      setNewAccount(BLANK_ACCOUNT);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function handleAssign(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    const persona = personas.find((p) => p.id === personaId);
+    if (!vaId || !persona) {
+      setError("Pick a VA and a caller to assign.");
+      return;
+    }
+    try {
+      const assignment = await createAssignment({
+        vaId,
+        persona,
+        dueDate,
+        note: note.trim() || undefined,
+        coaching,
+      });
+      setAssignments(
+        [...assignments, assignment].sort((a, b) =>
+          a.dueDate.localeCompare(b.dueDate)
+        )
+      );
+      setNote("");
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function handleRemove(assignment: Assignment) {
+    if (!confirm(`Remove ${nameOf(assignment.vaId)}'s assignment?`)) return;
+    setError(null);
+    try {
+      await removeAssignment(assignment.id);
+      setAssignments(assignments.filter((a) => a.id !== assignment.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-slate-50 flex justify-center p-6">
+      <div className="w-full max-w-4xl space-y-6">
+        <header className="flex items-center justify-between border-b pb-4">
+          <h1 className="text-2xl font-bold">Team</h1>
+          <Link
+            href="/home"
+            className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+          >
+            ← Back to personas
+          </Link>
+        </header>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <section className="rounded-xl border bg-white p-4 shadow-sm space-y-4">
+          <h2 className="text-lg font-semibold">Assignments</h2>
+
+          <form
+            onSubmit={handleAssign}
+            className="flex flex-wrap items-end gap-3 text-sm"
+          >
+            <label className="flex flex-col gap-1">
+              <span className="font-medium">VA</span>
+              <select
+                className="rounded border px-2 py-1 bg-white"
+                value={vaId}
+                onChange={(e) => setVaId(e.target.value)}
+              >
+                <option value="">Choose…</option>
+                {vas.map((va) => (
+                  <option key={va.id} value={va.id}>
+                    {va.displayName}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium">Caller</span>
+              <select
+                className="rounded border px-2 py-1 bg-white"
+                value={personaId}
+                onChange={(e) => setPersonaId(e.target.value)}
+              >
+                <option value="">Choose…</option>
+                {personas.map((persona) => (
+                  <option key={persona.id} value={persona.id}>
+                    {persona.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium">Due</span>
+              <input
+                type="date"
+                className="rounded border px-2 py-1 bg-white"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+            </label>
+            <label className="flex flex-1 flex-col gap-1">
+              <span className="font-medium">Note</span>
+              <input
+                className="rounded border px-2 py-1"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="e.g. Work on asking for the booking"
+              />
+            </label>
+            <label className="inline-flex items-center gap-2 py-1.5">
+              <input
+                type="checkbox"
+                checked={coaching}
+                onChange={(e) => setCoaching(e.target.checked)}
+              />
+              <span>Coaching panel</span>
+            </label>
+            <button
+              type="submit"
+              className="rounded bg-black px-4 py-1.5 text-sm font-semibold text-white hover:bg-slate-900"
+            >
+              Assign
+            </button>
+          </form>
+          {vas.length === 0 && (
+            <p className="text-xs text-slate-500">
+              Add a VA account below before assigning calls.
+            </p>
+          )}
+
+          {assignments.length === 0 ? (
+            <p className="text-sm text-slate-500">Nothing assigned yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-slate-500">
+                <tr>
+                  <th className="py-1">VA</th>
+                  <th>Caller</th>
+                  <th>Due</th>
+                  <th>Status</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {assignments.map((assignment) => (
+                  <tr key={assignment.id} className="border-t align-top">
+                    <td className="py-2">{nameOf(assignment.vaId)}</td>
+                    <td className="py-2">
+                      {assignment.persona.title}
+                      {assignment.coaching === false && (
+                        <span className="text-xs text-slate-500">
+                          {" "}
+                          &middot; no coaching
+                        </span>
+                      )}
+                      {assignment.note && (
+                        <p className="text-xs text-slate-500">
+                          {assignment.note}
+                        </p>
+                      )}
+                    </td>
+                    <td className="py-2">{describeDate(assignment.dueDate)}</td>
+                    <td className="py-2">
+                      {assignment.completedAt ? (
+                        <span className="text-emerald-700">
+                          Done{" "}
+                          {new Date(assignment.completedAt).toLocaleDateString()}
+                        </span>
+                      ) : isOverdue(assignment) ? (
+                        <span className="text-red-600">Overdue</span>
+                      ) : (
+                        <span className="text-slate-500">Open</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(assignment)}
+                        className="text-xs underline text-red-600"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        <section className="rounded-xl border bg-white p-4 shadow-sm space-y-4">
+          <h2 className="text-lg font-semibold">Accounts</h2>
+
+          <ul className="divide-y text-sm">
+            {accounts.map((account) => (
+              <li key={account.id} className="flex justify-between py-2">
+                <span>
+                  {account.displayName}{" "}
+                  <span className="text-slate-500">({account.username})</span>
+                </span>
+                <span className="text-slate-600">
+                  {ROLE_LABELS[account.role]}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <form
+            onSubmit={handleAddAccount}
+            className="flex flex-wrap items-end gap-3 text-sm"
+          >
+            <label className="flex flex-col gap-1">
+              <span className="font-medium">Name</span>
+              <input
+                className="rounded border px-2 py-1"
+                value={newAccount.displayName}
+                onChange={(e) =>
+                  setNewAccount({ ...newAccount, displayName: e.target.value })
+                }
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium">Username</span>
+              <input
+                className="rounded border px-2 py-1"
+                value={newAccount.username}
+                onChange={(e) =>
+                  setNewAccount({ ...newAccount, username: e.target.value })
+                }
+                autoComplete="off"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium">Password</span>
+              <input
+                type="password"
+                className="rounded border px-2 py-1"
+                value={newAccount.password}
+                onChange={(e) =>
+                  setNewAccount({ ...newAccount, password: e.target.value })
+                }
+                autoComplete="new-password"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium">Role</span>
+              <select
+                className="rounded border px-2 py-1 bg-white"
+                value={newAccount.role}
+                onChange={(e) =>
+                  setNewAccount({
+                    ...newAccount,
+                    role: e.target.value as AccountRole,
+                  })
+                }
+              >
+                <option value="va">{ROLE_LABELS.va}</option>
+                <option value="trainer">{ROLE_LABELS.trainer}</option>
+              </select>
+            </label>
+            <button
+              type="submit"
+              className="rounded bg-black px-4 py-1.5 text-sm font-semibold text-white hover:bg-slate-900"
+            >
+              Add account
+            </button>
+          </form>
+        </section>
+      </div>
+    </main>
+  );
+}
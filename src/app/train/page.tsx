@@ -2,89 +2,309 @@
 
 import { useEffect, useRef, useState } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
-import type { ClinicConfig } from "../types/config";
+import type {
+  AppointmentBook,
+  BookingCheck,
+  CalendarSlot,
+} from "../types/calendar";
+import type { Assignment } from "../types/account";
+import type { ClinicProfile } from "../types/config";
+import type { CallAction, InputMode, Turn, TurnTiming } from "../types/call";
+import type { Persona } from "../types/persona";
+import type { CallOutcome } from "../types/scenario";
+import type { ConversationSession } from "../types/session";
+import type { Scorecard } from "../types/score";
+import type { Discrepancy } from "../types/factCheck";
+import type { SpeechMetrics } from "../types/speechMetrics";
+import type { CoachingTip } from "../types/coaching";
+import type { PatientTurnResult } from "../types/turn";
+import {
+  callBooking,
+  checkBookedSlot,
+  describeDate,
+  describeSlot,
+  seedAppointmentBook,
+  toDateKey,
+} from "../lib/calendar";
+import {
+  callActionTurn,
+  describeCallAction,
+  formatDuration,
+  lastCallAction,
+  MAX_CALLBACK_LENGTH,
+} from "../lib/callActions";
+import { checkCallFacts } from "../lib/factCheck";
+import { checkCallScript, missedScriptItems } from "../lib/callScript";
+import { computeSpeechMetrics } from "../lib/speechMetrics";
+import {
+  API_ERROR_MESSAGES,
+  describeApiError,
+  readApiError,
+} from "../lib/apiErrors";
+import { getAssignment } from "../lib/accounts";
+import { base64ToBlob } from "../lib/audioMix";
+import type { CapturedClip } from "../lib/callRecordings";
+import { buildCallRecording, callRecordings } from "../lib/callRecordings";
+import { clinicProfiles } from "../lib/clinicProfiles";
+import { parseOfficeHours } from "../lib/officeHours";
+import { readTurnStream } from "../lib/sse";
+import { dropLastExchange, markLastPatientInterrupted } from "../lib/turns";
+import {
+  DEFAULT_VAD_SETTINGS,
+  createVoiceActivityDetector,
+} from "../lib/vad";
+import type { VoiceActivityDetector, VoiceActivityHandlers } from "../lib/vad";
+import {
+  BUILT_IN_PERSONAS,
+  DEFAULT_PERSONA_ID,
+  personaStore,
+} from "../lib/personas";
+import {
+  buildOutcome,
+  CALL_CONTEXT_FIELDS,
+  getScenarioGoal,
+  isTerminalStatus,
+} from "../lib/scenarios";
+import { useAccount } from "../components/AccountProvider";
+import AppointmentCalendar from "../components/AppointmentCalendar";
+import BookingCheckView from "../components/BookingCheckView";
+import ClinicSwitcher from "../components/ClinicSwitcher";
+import CoachingPanel from "../components/CoachingPanel";
+import MissedScriptItems from "../components/MissedScriptItems";
+import MoodTimeline from "../components/MoodTimeline";
+import OutcomeBanner from "../components/OutcomeBanner";
+import ScorecardView from "../components/ScorecardView";
+import ScriptChecklist from "../components/ScriptChecklist";
+import SpeechMetricsView from "../components/SpeechMetricsView";
+import TranscriptView from "../components/TranscriptView";
 
-type ModeId = "easy" | "challenging" | "skeptical" | "creepy";
-type Role = "staff" | "patient";
+type EndCallResponse = {
+  session: ConversationSession;
+  scorecard: Scorecard;
+  discrepancies: Discrepancy[];
+  speechMetrics: SpeechMetrics;
+  bookingCheck: BookingCheck | null;
+};
 
-type Turn = {
-  role: Role;
-  text: string;
+// A VA line waiting to be sent again after it failed. `replaceLast` turns
+// it into a correction of the previous exchange.
+type PendingTurn = {
+  staffTurn: Blob | string;
+  replaceLast: boolean;
+  timing?: TurnTiming;
+  action?: CallAction;
+  startedAt?: number; // performance.now() when a recorded line began
 };
 
-const MODE_LABELS: Record<ModeId, string> = {
-  easy: "Easy",
-  challenging: "Challenging",
-  skeptical: "Skeptical",
-  creepy: "Creepy",
+// The audio heard in one exchange, kept for replay. Patient clips are added
+// as they finish playing.
+type RecordedExchange = {
+  staffIndex: number;
+  staff: Omit<CapturedClip, "turnIndex" | "role"> | null;
+  patient: Omit<CapturedClip, "turnIndex" | "role">[];
 };
 
 export default function TrainPage() {
   const searchParams = useSearchParams();
   const router = useRouter();
+  const account = useAccount();
 
-  const rawMode = (searchParams.get("mode") || "easy") as ModeId;
-  const mode: ModeId = MODE_LABELS[rawMode] ? rawMode : "easy";
+  // `mode` is the pre-persona name of the parameter; old links still work.
+  const personaId =
+    searchParams.get("persona") || searchParams.get("mode") || DEFAULT_PERSONA_ID;
+  // Assigned calls use the persona the trainer assigned.
+  const assignmentId = searchParams.get("assignment");
 
-  const [clinic, setClinic] = useState<ClinicConfig | null>(null);
+  const [profile, setProfile] = useState<ClinicProfile | null>(null);
+  const [persona, setPersona] = useState<Persona | null>(null);
+  const [assignment, setAssignment] = useState<Assignment | null>(null);
   const [turns, setTurns] = useState<Turn[]>([]);
-  const [transcript, setTranscript] = useState<string>("");
   const [isRecording, setIsRecording] = useState(false);
   const [isBusy, setIsBusy] = useState(false); // talking to backend
   const [error, setError] = useState<string | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const [scorecard, setScorecard] = useState<Scorecard | null>(null);
+  const [discrepancies, setDiscrepancies] = useState<Discrepancy[]>([]);
+  const [speechMetrics, setSpeechMetrics] = useState<SpeechMetrics | null>(
+    null
+  );
+  const [outcome, setOutcome] = useState<CallOutcome | null>(null);
+  const [inputMode, setInputMode] = useState<InputMode>("voice");
+  const [typedText, setTypedText] = useState("");
+  const [speakReplies, setSpeakReplies] = useState(true);
+  // Voice mode only: an open line that detects speech instead of hold-to-talk.
+  const [handsFree, setHandsFree] = useState(false);
+  const [isListening, setIsListening] = useState(false);
+  const [vadSettings, setVadSettings] = useState(DEFAULT_VAD_SETTINGS);
+  const [failedTurn, setFailedTurn] = useState<PendingTurn | null>(null);
+  // The corrected text while the VA edits their last line.
+  const [editingText, setEditingText] = useState<string | null>(null);
+  // Trainers turn coaching off for assessed calls, with ?coaching=off or on
+  // the assignment, and the VA can't turn it back on.
+  const [coachingChosen, setCoachingChosen] = useState(true);
+  const [coachingTip, setCoachingTip] = useState<CoachingTip | null>(null);
+  const [isCoaching, setIsCoaching] = useState(false);
+  // Hold, transfer or callback waiting to go with the VA's next line.
+  const [callAction, setCallAction] = useState<CallAction | null>(null);
+  const [holdStartedAt, setHoldStartedAt] = useState<number | null>(null);
+  const [holdElapsedMs, setHoldElapsedMs] = useState(0);
+  const [callbackWhen, setCallbackWhen] = useState<string | null>(null);
+  // Until the session exists the calendar is seeded here, from the same
+  // date the session is started with; after that the server's copy is shown.
+  const [callDate] = useState(() => toDateKey(new Date()));
+  const [sessionCalendar, setSessionCalendar] =
+    useState<AppointmentBook | null>(null);
+  const [showCalendar, setShowCalendar] = useState(false);
+  // Set once the call goes to /end. Until then the calendar stays open, so
+  // the VA can book the slot after the patient agrees to it.
+  const [callEnded, setCallEnded] = useState(false);
+  const [bookingCheck, setBookingCheck] = useState<BookingCheck | null>(null);
+  // The history entry for the finished call, once saved.
+  const [savedCallId, setSavedCallId] = useState<string | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  // The server-side session for this call, created on the first turn.
+  const sessionRef = useRef<{ id: string; startedAt: string } | null>(null);
+  // Patient speech still to play, one sentence per clip.
+  const audioQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const currentAudioRef = useRef<HTMLAudioElement | null>(null);
+  const pendingClipsRef = useRef(0);
+  // After the VA talks over the patient, the rest of that reply stays silent
+  // and the next turn tells the server the patient was cut off.
+  const mutedRef = useRef(false);
+  const interruptedRef = useRef(false);
+  // The transcript as the server last confirmed it.
+  const confirmedTurnsRef = useRef<Turn[]>([]);
+  // Which coaching request is newest.
+  const coachRequestRef = useRef(0);
+  // Delivery timing: when the VA started the line being recorded, how long
+  // they waited after the patient, and how long the patient's reply played.
+  const speechStartedAtRef = useRef<number | null>(null);
+  const responseDelayRef = useRef<number | null>(null);
+  const replyEndedAtRef = useRef<number | null>(null);
+  const replySpeechMsRef = useRef(0);
+  // The pending call action, for recorder callbacks bound on earlier renders.
+  const callActionRef = useRef<CallAction | null>(null);
+  // Both sides' audio for the exchanges the server has confirmed.
+  const recordingRef = useRef<RecordedExchange[]>([]);
+  // Hands-free turns can be spoken while the previous one is still streaming.
+  const turnInFlightRef = useRef<Promise<void>>(Promise.resolve());
+  const streamRef = useRef<MediaStream | null>(null);
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const vadHandlersRef = useRef<VoiceActivityHandlers>({
+    onSpeechStart: () => {},
+    onSpeechEnd: () => {},
+  });
 
-  // Load clinic config on mount
+  // Load the active clinic profile on mount
   useEffect(() => {
-    if (typeof window === "undefined") return;
-    const stored = window.localStorage.getItem("clinicConfig");
-    if (stored) {
-      try {
-        setClinic(JSON.parse(stored));
-      } catch (err) {
-        console.error("Failed to parse clinicConfig", err);
-      }
+    clinicProfiles
+      .getActive()
+      .then(setProfile)
+      .catch((err) => console.error("Failed to load clinic profile", err));
+  }, []);
+
+  // The server enforces the same lock; the link's half is sent with the call.
+  const coachingOffLink = searchParams.get("coaching") === "off";
+  const coachingLocked = coachingOffLink || assignment?.coaching === false;
+  const coachingOn = coachingChosen && !coachingLocked;
+
+  const clinic = profile?.config ?? null;
+  const goal = persona ? getScenarioGoal(persona.goalId) : null;
+
+  useEffect(() => {
+    if (assignmentId) {
+      getAssignment(assignmentId)
+        .then((found) => {
+          setAssignment(found);
+          setPersona(found.persona);
+        })
+        .catch((err) => setError((err as Error).message));
+      return;
     }
+    personaStore
+      .get(personaId)
+      .then((found) => setPersona(found ?? BUILT_IN_PERSONAS[0]))
+      .catch((err) => console.error("Failed to load persona", err));
+  }, [personaId, assignmentId]);
+
+  // The detector outlives renders, so it calls whatever handlers are current.
+  useEffect(() => {
+    vadHandlersRef.current = {
+      onSpeechStart: handleSpeechStart,
+      onSpeechEnd: handleSpeechEnd,
+    };
+  });
+
+  useEffect(() => {
+    vadRef.current?.setSettings(vadSettings);
+  }, [vadSettings]);
+
+  // Ticks the hold timer.
+  useEffect(() => {
+    if (holdStartedAt === null) return;
+    const timer = setInterval(
+      () => setHoldElapsedMs(performance.now() - holdStartedAt),
+      1000
+    );
+    return () => clearInterval(timer);
+  }, [holdStartedAt]);
+
+  // Release the microphone when leaving the page.
+  useEffect(() => {
+    return () => {
+      vadRef.current?.stop();
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+    };
   }, []);
 
-  // Helper: format transcript from turns[]
-  function rebuildTranscript(updated: Turn[]) {
-    const text = updated
-      .map((t) => `${t.role === "staff" ? "VA" : "Patient"}: ${t.text}`)
-      .join("\n");
-    setTranscript(text);
-  }
+  // Live fact-check of everything the VA has said so far
+  const liveDiscrepancies = clinic ? checkCallFacts(turns, clinic) : [];
+  const checklist = clinic
+    ? checkCallScript(turns, clinic, account.displayName)
+    : [];
+  const missedItems = missedScriptItems(checklist);
+  const showSidePanel = coachingOn || checklist.length > 0;
+  const interruptions = turns.filter((t) => t.interrupted).length;
+  const lastStaffIndex = turns.map((t) => t.role).lastIndexOf("staff");
+  const onHold = holdStartedAt !== null;
+  const schedule = parseOfficeHours(clinic?.officeHours ?? "");
+  const calendar =
+    sessionCalendar ??
+    (persona ? seedAppointmentBook(schedule, callDate, persona.id) : null);
+  const calendarBooking = calendar ? callBooking(calendar) : null;
+  const wrappingUp = outcome?.status === "booked" && !callEnded;
+  const bookingOpen = outcome === null || wrappingUp;
 
-  async function ensureRecorderAndStart() {
+  // Returns the shared recorder, asking for the microphone the first time.
+  async function getRecorder() {
     setError(null);
 
     if (!clinic) {
       setError("Clinic setup is missing. Go back and fill out Setup first.");
       alert("Please complete the clinic Setup page before training.");
       router.push("/setup");
-      return;
+      return null;
     }
 
     if (typeof navigator === "undefined" || !navigator.mediaDevices) {
-      setError("This browser does not support microphone recording.");
-      alert("Your browser does not support microphone recording.");
-      return;
+      setInputMode("text");
+      setError(
+        "This browser does not support microphone recording, so you've been switched to typed practice."
+      );
+      return null;
     }
 
-    // If we already have a recorder, just start it
-    if (mediaRecorderRef.current) {
-      chunksRef.current = [];
-      mediaRecorderRef.current.start();
-      setIsRecording(true);
-      return;
-    }
+    if (mediaRecorderRef.current) return mediaRecorderRef.current;
 
     try {
+      // Echo cancellation keeps the patient's voice from the speakers from
+      // being picked up as the VA talking.
       const stream = await navigator.mediaDevices.getUserMedia({
-        audio: true,
+        audio: { echoCancellation: true, noiseSuppression: true },
       });
+      streamRef.current = stream;
 
       const recorder = new MediaRecorder(stream);
       mediaRecorderRef.current = recorder;
@@ -96,81 +316,584 @@ export default function TrainPage() {
         }
       };
 
-      recorder.onstop = async () => {
-        const blob = new Blob(chunksRef.current, { type: "audio/webm" });
-        chunksRef.current = [];
-        await sendTurnToBackend(blob);
-      };
-
-      recorder.start();
-      setIsRecording(true);
+      return recorder;
     } catch (err) {
       console.error("Error accessing microphone", err);
-      setError("Could not access microphone. Check browser permissions.");
+      setError(
+        "Could not access microphone. Check browser permissions, or switch to typed practice."
+      );
       alert(
         "Could not access microphone. Please allow mic access in your browser."
       );
+      return null;
+    }
+  }
+
+  // onstop is re-bound on every start so it sees this render's state rather
+  // than the state from the first turn.
+  function startRecording(recorder: MediaRecorder) {
+    chunksRef.current = [];
+    recorder.onstop = handleRecorderStop;
+    recorder.start();
+    setIsRecording(true);
+
+    // No response delay when the VA talked over the patient or spoke first.
+    const now = performance.now();
+    const replyEnded = replyEndedAtRef.current;
+    speechStartedAtRef.current = now;
+    responseDelayRef.current =
+      replyEnded !== null && !interruptedRef.current ? now - replyEnded : null;
+    replyEndedAtRef.current = null;
+  }
+
+  // Timing for the line just recorded. Hands-free recordings run on for
+  // the pause that ended them, so that is taken off.
+  function takeSpeechTiming(): TurnTiming | undefined {
+    const started = speechStartedAtRef.current;
+    const delay = responseDelayRef.current;
+    speechStartedAtRef.current = null;
+    responseDelayRef.current = null;
+    if (started === null) return undefined;
+
+    const trailing = vadRef.current ? vadSettings.silenceMs : 0;
+    return {
+      speechMs: Math.max(0, Math.round(performance.now() - started - trailing)),
+      ...(delay !== null && { responseDelayMs: Math.round(delay) }),
+    };
+  }
+
+  async function ensureRecorderAndStart() {
+    const recorder = await getRecorder();
+    if (recorder) startRecording(recorder);
+  }
+
+  async function startOpenLine() {
+    const recorder = await getRecorder();
+    if (!recorder || !streamRef.current) return;
+
+    vadRef.current = createVoiceActivityDetector(
+      streamRef.current,
+      vadSettings,
+      {
+        onSpeechStart: () => vadHandlersRef.current.onSpeechStart(),
+        onSpeechEnd: () => vadHandlersRef.current.onSpeechEnd(),
+      }
+    );
+    setIsListening(true);
+  }
+
+  // `discard` drops a turn that is still being recorded instead of sending it.
+  function stopOpenLine(discard = false) {
+    vadRef.current?.stop();
+    vadRef.current = null;
+    setIsListening(false);
+
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== "inactive") {
+      if (discard) recorder.onstop = null;
+      recorder.stop();
+      setIsRecording(false);
+    }
+  }
+
+  function handleSpeechStart() {
+    if (outcome || isScoring || onHold) return;
+    bargeIn();
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state === "inactive") startRecording(recorder);
+  }
+
+  function handleSpeechEnd() {
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state === "recording") {
+      recorder.stop();
+      setIsRecording(false);
+    }
+  }
+
+  // The VA started talking while the patient was still speaking: cut the
+  // patient off and note it on their line.
+  function bargeIn() {
+    if (pendingClipsRef.current === 0) return;
+    stopPatientAudio();
+    interruptedRef.current = true;
+    setTurns(markLastPatientInterrupted);
+  }
+
+  // Silences the current reply, including clips that haven't arrived yet.
+  function stopPatientAudio() {
+    mutedRef.current = true;
+    currentAudioRef.current?.pause();
+  }
+
+  async function handleRecorderStop() {
+    const blob = new Blob(chunksRef.current, { type: "audio/webm" });
+    chunksRef.current = [];
+    const startedAt = speechStartedAtRef.current ?? undefined;
+    await sendTurnToBackend({
+      staffTurn: blob,
+      replaceLast: false,
+      timing: takeSpeechTiming(),
+      action: takeCallAction(),
+      startedAt,
+    });
+  }
+
+  async function handleSendTyped(e: React.FormEvent) {
+    e.preventDefault();
+    const text = typedText.trim();
+    if (!text || isBusy || outcome) return;
+
+    if (!clinic) {
+      setError("Clinic setup is missing. Go back and fill out Setup first.");
+      alert("Please complete the clinic Setup page before training.");
+      router.push("/setup");
+      return;
+    }
+
+    setTypedText("");
+    await sendTurnToBackend({
+      staffTurn: text,
+      replaceLast: false,
+      action: takeCallAction(),
+    });
+  }
+
+  // A turn is the recorded audio in voice mode or the typed line in text mode.
+  // Both go through the same route, prompt and turn history.
+  async function startSession() {
+    if (sessionRef.current) return sessionRef.current.id;
+
+    const res = await fetch("/api/sessions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        clinicConfig: clinic,
+        persona,
+        inputMode,
+        assignmentId: assignment?.id,
+        ...(coachingOffLink && { coaching: false }),
+        callDate,
+      }),
+    });
+
+    if (!res.ok) {
+      setError(await readApiError(res));
+      return null;
     }
+
+    const data = (await res.json()) as { session: ConversationSession };
+    sessionRef.current = {
+      id: data.session.id,
+      startedAt: data.session.startedAt,
+    };
+    setSessionCalendar(data.session.calendar ?? null);
+    return data.session.id;
+  }
+
+  function showServerTurns(serverTurns: Turn[]) {
+    confirmedTurnsRef.current = serverTurns;
+    setTurns(serverTurns);
+  }
+
+  function chooseCallAction(action: CallAction | null) {
+    callActionRef.current = action;
+    setCallAction(action);
+  }
+
+  // The pending call action goes with whichever line is sent next.
+  function takeCallAction() {
+    const action = callActionRef.current ?? undefined;
+    chooseCallAction(null);
+    return action;
+  }
+
+  async function sendTurnToBackend(pending: PendingTurn) {
+    const turn = turnInFlightRef.current.then(() => postTurn(pending));
+    turnInFlightRef.current = turn;
+    await turn;
   }
 
-  async function sendTurnToBackend(audioBlob: Blob) {
-    if (!clinic) return;
+  // `replaceLast` swaps the previous exchange for this one, e.g. when the VA
+  // corrects a mistranscribed line. The server only commits it on success.
+  async function postTurn(pending: PendingTurn) {
+    const { staffTurn, replaceLast, timing, action, startedAt } = pending;
+    if (!clinic || !persona) return;
 
     setIsBusy(true);
     setError(null);
+    setFailedTurn(null);
+
+    const interrupted = interruptedRef.current && !replaceLast;
+    interruptedRef.current = false;
+    mutedRef.current = false;
+    // A correction replaces the exchange the reply belonged to.
+    const replyMs = replaceLast ? 0 : Math.round(replySpeechMsRef.current);
+    replySpeechMsRef.current = 0;
+
+    // Earlier exchanges have all finished by now (turns run one at a time),
+    // so this is what the server has.
+    const confirmed = confirmedTurnsRef.current;
+    const base = replaceLast
+      ? dropLastExchange(confirmed) ?? confirmed
+      : interrupted
+      ? markLastPatientInterrupted(confirmed)
+      : confirmed;
+    const actionTurns = action ? [callActionTurn(action)] : [];
+    const exchange: RecordedExchange = {
+      staffIndex: base.length + actionTurns.length,
+      staff:
+        staffTurn instanceof Blob && startedAt !== undefined && timing
+          ? { audio: staffTurn, at: startedAt, durationMs: timing.speechMs }
+          : null,
+      patient: [],
+    };
+
+    // Keeps the line (and the recording) so the VA doesn't have to say it
+    // again, and puts the transcript back the way the server has it.
+    function fail(message: string) {
+      setError(message);
+      setFailedTurn(pending);
+      interruptedRef.current = interrupted;
+      replySpeechMsRef.current = replyMs;
+      setTurns(interrupted ? markLastPatientInterrupted(confirmed) : confirmed);
+    }
 
     try {
+      const sessionId = await startSession();
+      if (!sessionId) {
+        setFailedTurn(pending);
+        return;
+      }
+
       const formData = new FormData();
-      formData.append("audio", audioBlob, "staff.webm");
-      formData.append("mode", mode);
-      formData.append("clinicConfig", JSON.stringify(clinic));
-      formData.append("turns", JSON.stringify(turns));
+      formData.append("sessionId", sessionId);
+      if (typeof staffTurn === "string") {
+        formData.append("text", staffTurn);
+      } else {
+        formData.append("audio", staffTurn, "staff.webm");
+      }
+      if (inputMode === "text" && !speakReplies) {
+        formData.append("tts", "false");
+      }
+      if (interrupted) {
+        formData.append("interrupted", "true");
+      }
+      if (replaceLast) {
+        formData.append("replaceLast", "true");
+      }
+      if (timing) {
+        formData.append("speechMs", String(timing.speechMs));
+        if (timing.responseDelayMs !== undefined) {
+          formData.append("responseDelayMs", String(timing.responseDelayMs));
+        }
+      }
+      if (replyMs > 0) {
+        formData.append("replySpeechMs", String(replyMs));
+      }
+      if (action) {
+        formData.append("action", action.type);
+        if (action.type === "hold") {
+          formData.append("holdMs", String(action.durationMs));
+        } else if (action.type === "callback") {
+          formData.append("callbackTime", action.when);
+        }
+      }
 
-      const res = await fetch("/api/voice-turn", {
+      const res = await fetch("/api/voice-turn/stream", {
         method: "POST",
         body: formData,
       });
 
       if (!res.ok) {
-        const text = await res.text();
-        console.error("API error:", text);
-        setError("Server error from /api/voice-turn.");
+        fail(await readApiError(res));
         return;
       }
 
-      const data = await res.json() as {
-        staffText: string;
-        patientText: string;
-        audioBase64: string;
-        turns: Turn[];
-      };
+      // Show the VA's line as soon as it is transcribed and the patient's
+      // reply as it is written; audio arrives a sentence at a time.
+      let staffLine: Turn | null = null;
+      let patientText = "";
+      // Assigned inside the callback, so TypeScript cannot narrow it.
+      let result = null as PatientTurnResult | null;
+      let streamError = null as string | null;
+
+      await readTurnStream(res, (event) => {
+        switch (event.type) {
+          case "staff":
+            staffLine = { role: "staff", text: event.text };
+            setTurns([...base, ...actionTurns, staffLine]);
+            break;
+          case "patient-delta":
+            patientText += event.text;
+            if (!staffLine) break;
+            setTurns([
+              ...base,
+              ...actionTurns,
+              staffLine,
+              { role: "patient", text: patientText },
+            ]);
+            break;
+          case "audio":
+            queueAudio(
+              `data:${event.mimeType};base64,${event.audioBase64}`,
+              (at, durationMs) =>
+                exchange.patient.push({
+                  audio: base64ToBlob(event.audioBase64, event.mimeType),
+                  at,
+                  durationMs,
+                })
+            );
+            break;
+          case "done":
+            result = event.result;
+            break;
+          case "error":
+            console.error("Stream error:", event);
+            streamError = describeApiError(event);
+            break;
+        }
+      });
+
+      if (!result) {
+        // Nothing was saved on the server.
+        fail(streamError ?? API_ERROR_MESSAGES.server_error);
+        return;
+      }
+
+      const data = result;
+
+      // Keep this exchange's audio. A correction keeps the recording of the
+      // line it corrected.
+      const replaced = recordingRef.current.find(
+        (e) => e.staffIndex >= base.length
+      );
+      exchange.staff ??= replaced?.staff ?? null;
+      recordingRef.current = [
+        ...recordingRef.current.filter((e) => e.staffIndex < base.length),
+        exchange,
+      ];
 
-      // Update local turns & transcript
-      setTurns(data.turns);
-      rebuildTranscript(data.turns);
+      // The server's transcript is authoritative. It only learns about a
+      // barge-in with the next turn, so keep the local mark until then.
+      confirmedTurnsRef.current = data.turns;
+      setTurns(
+        interruptedRef.current
+          ? markLastPatientInterrupted(data.turns)
+          : data.turns
+      );
+
+      // The VA's response delay runs from when the patient stops talking.
+      audioQueueRef.current.then(() => {
+        if (!mutedRef.current) replyEndedAtRef.current = performance.now();
+      });
+
+      const transferred = lastCallAction(data.turns)?.type === "transfer";
+      if (coachingOn && !isTerminalStatus(data.meta.status) && !transferred) {
+        requestCoaching(sessionId);
+      }
 
-      // Play patient audio reply
-      if (data.audioBase64) {
-        const audio = new Audio(
-          `data:audio/mp3;base64,${data.audioBase64}`
+      // The patient agreed to a slot: the VA wraps up by booking it, then
+      // ends the call. Hanging up or a transfer ends it once the patient
+      // finishes saying so.
+      if (data.meta.status === "booked") {
+        stopOpenLine(true);
+        setOutcome(buildOutcome("booked", data.meta.bookedSlot));
+        setShowCalendar(true);
+      } else if (isTerminalStatus(data.meta.status)) {
+        await audioQueueRef.current;
+        await finishCall(
+          data.turns,
+          buildOutcome(data.meta.status, data.meta.bookedSlot)
         );
-        try {
-          await audio.play();
-        } catch (err) {
-          console.error("Error playing audio", err);
-        }
+      } else if (transferred) {
+        await audioQueueRef.current;
+        await finishCall(data.turns, buildOutcome("transferred"));
       }
     } catch (err) {
       console.error("Error sending turn to backend", err);
-      setError("Network error while talking to /api/voice-turn.");
+      fail("Network error while talking to the server. Check your connection.");
     } finally {
       setIsBusy(false);
     }
   }
 
+  // Runs alongside the call; a slow or failed tip never blocks the VA.
+  async function requestCoaching(sessionId: string) {
+    const request = ++coachRequestRef.current;
+    setIsCoaching(true);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/coach`, {
+        method: "POST",
+      });
+      if (!res.ok) {
+        console.error("Coaching failed:", await res.text());
+        return;
+      }
+      const data = (await res.json()) as { tip: CoachingTip };
+      if (request !== coachRequestRef.current) return; // a newer turn won
+      setCoachingTip(data.tip);
+    } catch (err) {
+      console.error("Error fetching coaching", err);
+    } finally {
+      if (request === coachRequestRef.current) setIsCoaching(false);
+    }
+  }
+
+  async function handleRetry() {
+    if (!failedTurn) return;
+    await sendTurnToBackend(failedTurn);
+  }
+
+  // Takes back the last VA line and the patient's answer on the server too,
+  // so the patient "forgets" it.
+  async function handleUndo() {
+    const session = sessionRef.current;
+    if (!session || isBusy || outcome) return;
+
+    stopPatientAudio();
+    setError(null);
+    setFailedTurn(null);
+    setEditingText(null);
+
+    try {
+      const res = await fetch(`/api/sessions/${session.id}/undo`, {
+        method: "POST",
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      const data = (await res.json()) as { session: ConversationSession };
+      interruptedRef.current = false;
+      coachRequestRef.current += 1;
+      setCoachingTip(null);
+      setIsCoaching(false);
+      recordingRef.current = recordingRef.current.filter(
+        (e) => e.staffIndex < data.session.turns.length
+      );
+      showServerTurns(data.session.turns);
+    } catch (err) {
+      console.error("Error undoing turn", err);
+      setError("Network error while talking to the server. Check your connection.");
+    }
+  }
+
+  async function handleRegenerate(e: React.FormEvent) {
+    e.preventDefault();
+    const text = editingText?.trim();
+    if (!text || isBusy) return;
+    stopPatientAudio();
+    setEditingText(null);
+    // Same words said in the same time, just transcribed properly, and
+    // the same hold, transfer or callback.
+    await sendTurnToBackend({
+      staffTurn: text,
+      replaceLast: true,
+      timing: turns[lastStaffIndex]?.timing,
+      action: lastCallAction(turns) ?? undefined,
+    });
+  }
+
+  // Clips play back to back in the order they arrived. `onPlayed` gets
+  // when each one started and how much of it was heard.
+  function queueAudio(
+    src: string,
+    onPlayed?: (at: number, durationMs: number) => void
+  ) {
+    pendingClipsRef.current += 1;
+    audioQueueRef.current = audioQueueRef.current
+      .then(
+        () =>
+          new Promise<void>((resolve) => {
+            if (mutedRef.current) return resolve();
+            const audio = new Audio(src);
+            currentAudioRef.current = audio;
+            // Counts what was actually heard, up to a barge-in.
+            const started = performance.now();
+            let played = false;
+            const finish = () => {
+              if (!played) {
+                played = true;
+                const heard = performance.now() - started;
+                replySpeechMsRef.current += heard;
+                onPlayed?.(started, heard);
+              }
+              resolve();
+            };
+            audio.onended = finish;
+            audio.onpause = finish;
+            audio.onerror = () => resolve();
+            audio.play().catch((err) => {
+              console.error("Error playing audio", err);
+              resolve();
+            });
+          })
+      )
+      .finally(() => {
+        pendingClipsRef.current -= 1;
+        currentAudioRef.current = null;
+      });
+  }
+
+  // Books the slot for the patient, starting the session if the VA checks
+  // the calendar before saying anything.
+  async function handleBookSlot(slot: CalendarSlot) {
+    if (!bookingOpen || !clinic || !persona) return;
+    setError(null);
+    try {
+      const sessionId = await startSession();
+      if (!sessionId) return;
+      const res = await fetch(`/api/sessions/${sessionId}/calendar`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(slot),
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      const data = (await res.json()) as { calendar: AppointmentBook };
+      setSessionCalendar(data.calendar);
+    } catch (err) {
+      console.error("Error booking slot", err);
+      setError("Network error while talking to the server. Check your connection.");
+    }
+  }
+
+  // Putting the patient on hold cuts off whatever they were saying.
+  function handleHold() {
+    if (isBusy || outcome || onHold) return;
+    bargeIn();
+    setHoldElapsedMs(0);
+    setHoldStartedAt(performance.now());
+  }
+
+  // The hold is recorded with the VA's next line, and the response delay
+  // for that line runs from here.
+  function handleResume() {
+    if (holdStartedAt === null) return;
+    const now = performance.now();
+    chooseCallAction({
+      type: "hold",
+      durationMs: Math.round(now - holdStartedAt),
+    });
+    setHoldStartedAt(null);
+    replyEndedAtRef.current = now;
+  }
+
+  function handleOfferCallback(e: React.FormEvent) {
+    e.preventDefault();
+    const when = callbackWhen?.trim();
+    if (!when) return;
+    chooseCallAction({ type: "callback", when });
+    setCallbackWhen(null);
+  }
+
   // UI handlers
   function handleStartTalking() {
-    if (isBusy) return; // don't let them talk while backend is responding
+    if (isBusy || outcome || onHold) return; // don't let them talk while backend is responding
+    bargeIn();
     ensureRecorderAndStart();
   }
 
@@ -185,15 +908,252 @@ export default function TrainPage() {
     setIsRecording(false);
   }
 
-  function handleEndCall() {
+  async function handleEndCall() {
     if (turns.length === 0) {
       alert("No conversation yet. Try a practice turn first.");
       return;
     }
+    // After an automatic end whose scoring failed, keep the real outcome.
+    await finishCall(turns, outcome ?? buildOutcome("ended_by_va"));
+  }
+
+  // `latestTurns` and `latestOutcome` are only used if the end request
+  // fails; otherwise the results come from the server's session.
+  async function finishCall(latestTurns: Turn[], latestOutcome: CallOutcome) {
+    const session = sessionRef.current;
+    if (!clinic || !persona || !session) return;
+
+    stopOpenLine(true);
+    setCallEnded(true);
+    setHoldStartedAt(null);
+    chooseCallAction(null);
+    setCallbackWhen(null);
+    setOutcome(latestOutcome);
+    setIsScoring(true);
+    setError(null);
+
+    let result: EndCallResponse | null = null;
+    let saved = false;
+
+    try {
+      // The last reply is timed here; earlier ones went with the next turn.
+      const replyMs = Math.round(replySpeechMsRef.current);
+      replySpeechMsRef.current = 0;
+      const res = await fetch(`/api/sessions/${session.id}/end`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(replyMs > 0 && { replySpeechMs: replyMs }),
+        }),
+      });
+
+      if (res.ok) {
+        const data = (await res.json()) as EndCallResponse;
+        result = data;
+        saved = true;
+        setSavedCallId(session.id);
+        setDiscrepancies(data.discrepancies);
+        setScorecard(data.scorecard);
+        setBookingCheck(data.bookingCheck);
+        if (data.session.outcome) setOutcome(data.session.outcome);
+      } else {
+        const body = await res.json().catch(() => null);
+        console.error("API error:", body);
+        // The server saves the call before scoring it, so it is kept unscored.
+        if (body?.code === "model_failed") {
+          saved = true;
+          setSavedCallId(session.id);
+        }
+        setError(`Scoring failed: ${describeApiError(body)}`);
+      }
+    } catch (err) {
+      console.error("Error ending call", err);
+      setError("Network error while ending the call.");
+    } finally {
+      setIsScoring(false);
+    }
+
+    // The results come from the server's session, or from the page's own
+    // copy of the call if the end request failed.
+    const ended = result?.session;
+    const finalTurns = ended?.turns ?? latestTurns;
+    const metrics = result?.speechMetrics ?? computeSpeechMetrics(finalTurns);
+    setSpeechMetrics(metrics);
+    const finalOutcome = ended?.outcome ?? latestOutcome;
+    const finalCalendar = ended?.calendar ?? calendar ?? undefined;
+    const slotCheck = result
+      ? result.bookingCheck
+      : finalOutcome.bookedSlot && finalCalendar
+      ? checkBookedSlot(
+          finalOutcome.bookedSlot,
+          finalCalendar,
+          clinic,
+          callDate
+        )
+      : null;
+    setBookingCheck(slotCheck);
+
+    // Saving the call completed the assignment on the server.
+    if (assignment && saved) {
+      getAssignment(assignment.id)
+        .then(setAssignment)
+        .catch((err) => console.error("Failed to refresh assignment", err));
+    }
+
+    const recording = buildCallRecording(
+      session.id,
+      recordingRef.current.flatMap((e) => [
+        ...(e.staff
+          ? [{ ...e.staff, turnIndex: e.staffIndex, role: "staff" as const }]
+          : []),
+        ...e.patient.map((clip) => ({
+          ...clip,
+          turnIndex: e.staffIndex + 1,
+          role: "patient" as const,
+        })),
+      ])
+    );
+    if (recording) {
+      callRecordings
+        .save(recording)
+        .catch((err) => console.error("Failed to save call recording", err));
+    }
+  }
+
+  function handleNewCall() {
+    sessionRef.current = null;
+    confirmedTurnsRef.current = [];
+    setCoachingTip(null);
+    setFailedTurn(null);
+    setEditingText(null);
+    chooseCallAction(null);
+    setHoldStartedAt(null);
+    setCallbackWhen(null);
+    setTurns([]);
+    setScorecard(null);
+    setDiscrepancies([]);
+    setSpeechMetrics(null);
+    setSessionCalendar(null);
+    setCallEnded(false);
+    setBookingCheck(null);
+    setSavedCallId(null);
+    recordingRef.current = [];
+    replySpeechMsRef.current = 0;
+    replyEndedAtRef.current = null;
+    setOutcome(null);
+    setError(null);
+  }
+
+  if (scorecard) {
+    return (
+      <main className="min-h-screen bg-slate-50 flex justify-center p-6">
+        <div className="w-full max-w-4xl space-y-6">
+          <header className="flex items-center justify-between border-b pb-4">
+            <h1 className="text-2xl font-bold">
+              {persona?.title} &ndash; Results
+            </h1>
+            <div className="flex gap-2">
+              <button
+                onClick={handleNewCall}
+                className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+              >
+                Practice again
+              </button>
+              <button
+                onClick={() => router.push("/history")}
+                className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+              >
+                Call history
+              </button>
+              {savedCallId && (
+                <button
+                  onClick={() => router.push(`/history/${savedCallId}`)}
+                  className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+                >
+                  Replay call
+                </button>
+              )}
+              <button
+                onClick={() => router.push("/home")}
+                className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
+              >
+                ← Back to personas
+              </button>
+            </div>
+          </header>
+
+          {outcome && persona && (
+            <OutcomeBanner
+              outcome={outcome}
+              goal={getScenarioGoal(persona.goalId)}
+            />
+          )}
+
+          <ScorecardView scorecard={scorecard} />
+
+          {bookingCheck && (
+            <section className="space-y-3">
+              <h2 className="text-sm font-semibold text-slate-700">
+                Booked Slot
+              </h2>
+              <BookingCheckView check={bookingCheck} />
+            </section>
+          )}
+
+          {interruptions > 0 && (
+            <p className="text-sm text-amber-700">
+              You talked over the patient {interruptions}{" "}
+              {interruptions === 1 ? "time" : "times"} on this call.
+            </p>
+          )}
+
+          <section className="space-y-3">
+            <h2 className="text-sm font-semibold text-slate-700">
+              Fact Check
+            </h2>
+            {discrepancies.length === 0 ? (
+              <p className="text-sm text-emerald-700">
+                Everything the VA stated matched the clinic setup.
+              </p>
+            ) : (
+              <ul className="list-disc pl-5 space-y-1 text-sm text-red-600">
+                {discrepancies.map((d, i) => (
+                  <li key={i}>{d.message}</li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <MoodTimeline turns={turns} />
+
+          {speechMetrics && <SpeechMetricsView metrics={speechMetrics} />}
+
+          {clinic && checklist.length > 0 && (
+            <section className="space-y-3">
+              <h2 className="text-sm font-semibold text-slate-700">
+                Call Script
+              </h2>
+              <MissedScriptItems
+                missed={missedItems}
+                total={checklist.length}
+                clinic={clinic}
+              />
+            </section>
+          )}
 
-    // For now just show a simple summary; later you can call a scoring API
-    alert("Call ended. In a later phase we'll add scoring + feedback.");
-    router.push("/home");
+          <section className="space-y-3">
+            <h2 className="text-sm font-semibold text-slate-700">
+              Call Transcript
+            </h2>
+            <TranscriptView
+              turns={turns}
+              discrepancies={discrepancies}
+              className="max-h-96"
+            />
+          </section>
+        </div>
+      </main>
+    );
   }
 
   return (
@@ -202,20 +1162,58 @@ export default function TrainPage() {
         {/* Header */}
         <header className="flex flex-col gap-2 border-b pb-4">
           <div className="flex items-center justify-between">
-            <h1 className="text-2xl font-bold">{MODE_LABELS[mode]} Mode</h1>
+            <h1 className="text-2xl font-bold">
+              {persona ? persona.title : "Loading persona…"}
+            </h1>
             <button
               onClick={() => router.push("/home")}
               className="text-xs rounded border px-3 py-1 bg-white hover:bg-slate-100"
             >
-              ← Back to modes
+              ← Back to personas
             </button>
           </div>
 
           <div className="text-sm text-slate-700 flex flex-col gap-1">
-            <span>
-              <strong>Clinic:</strong>{" "}
-              {clinic?.clinicName ?? "Not set"}
-            </span>
+            {persona && (
+              <span>
+                <strong>Caller:</strong> {persona.name}, {persona.age}
+                {" – "}
+                {persona.chiefComplaint}
+              </span>
+            )}
+            {persona && (
+              <span>
+                <strong>Goal:</strong> {getScenarioGoal(persona.goalId).label}
+              </span>
+            )}
+            {assignment && (
+              <span className="text-indigo-700">
+                <strong>Assignment</strong>, due{" "}
+                {describeDate(assignment.dueDate)}
+                {assignment.completedAt && " (done)"}
+                {assignment.note && `: ${assignment.note}`}
+              </span>
+            )}
+            {goal?.direction === "outbound" && (
+              <>
+                <span className="text-amber-700">
+                  Outbound call: you are dialling {persona?.name}. They
+                  don&apos;t know who&apos;s calling, so you open the call.
+                </span>
+                {goal.contextFields.map((field) => (
+                  <span key={field}>
+                    <strong>{CALL_CONTEXT_FIELDS[field].label}:</strong>{" "}
+                    {persona?.callContext?.[field] || "Not set"}
+                  </span>
+                ))}
+              </>
+            )}
+            {/* The clinic is snapshotted into the session on the first turn. */}
+            <ClinicSwitcher
+              active={profile}
+              onChange={setProfile}
+              disabled={turns.length > 0}
+            />
             <span>
               <strong>Doctor:</strong>{" "}
               {clinic?.doctorName ?? "Not set"}
@@ -242,58 +1240,429 @@ export default function TrainPage() {
           {error && (
             <p className="text-xs text-red-600 mt-1">
               {error}
+              {failedTurn && !isBusy && (
+                <button
+                  type="button"
+                  onClick={handleRetry}
+                  className="ml-2 underline font-semibold"
+                >
+                  Retry {typeof failedTurn.staffTurn === "string" ? "line" : "recording"}
+                </button>
+              )}
             </p>
           )}
         </header>
 
+        {outcome && persona && (
+          <OutcomeBanner
+            outcome={outcome}
+            goal={getScenarioGoal(persona.goalId)}
+          />
+        )}
+        {wrappingUp && (
+          <p className="text-sm text-amber-700">
+            {outcome.bookedSlot
+              ? `The patient agreed to ${outcome.bookedSlot}.`
+              : "The patient agreed to book."}{" "}
+            Book the slot in the calendar, then end the call.
+          </p>
+        )}
+
         {/* Transcript area */}
         <section className="space-y-3">
-          <h2 className="text-sm font-semibold text-slate-700">
-            Call Transcript
-          </h2>
-          <div className="h-64 w-full rounded-lg border bg-white p-3 text-sm overflow-y-auto whitespace-pre-wrap">
-            {transcript || (
-              <span className="text-slate-400">
-                Press and hold the mic button, speak, and release.
-                Your side and the patient&apos;s replies will appear here.
-              </span>
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-slate-700">
+              Call Transcript
+            </h2>
+            <label
+              className={`inline-flex items-center gap-2 text-xs ${
+                coachingLocked ? "text-slate-400" : ""
+              }`}
+              title={
+                coachingLocked
+                  ? "Your trainer turned coaching off for this call"
+                  : undefined
+              }
+            >
+              <input
+                type="checkbox"
+                checked={coachingOn}
+                disabled={coachingLocked}
+                onChange={(e) => setCoachingChosen(e.target.checked)}
+              />
+              <span>Coaching panel</span>
+            </label>
+          </div>
+          <div
+            className={
+              showSidePanel
+                ? "grid gap-3 md:grid-cols-3 items-start"
+                : undefined
+            }
+          >
+            <TranscriptView
+              className={showSidePanel ? "h-64 md:col-span-2" : undefined}
+              turns={turns}
+              discrepancies={liveDiscrepancies}
+              editableIndex={
+                isBusy || outcome || editingText !== null
+                  ? undefined
+                  : lastStaffIndex
+              }
+              onEdit={(i) => setEditingText(turns[i].text)}
+              placeholder={
+                <>
+                  {inputMode === "voice"
+                    ? "Press and hold the mic button, speak, and release."
+                    : "Type your side of the call and press Send."}{" "}
+                  Your side and the patient&apos;s replies will appear here.
+                </>
+              }
+            />
+            {showSidePanel && (
+              <div className="space-y-3">
+                {checklist.length > 0 && <ScriptChecklist results={checklist} />}
+                {coachingOn && (
+                  <CoachingPanel tip={coachingTip} loading={isCoaching} />
+                )}
+              </div>
             )}
           </div>
         </section>
 
-        {/* Controls */}
-        <section className="flex flex-col md:flex-row items-center justify-between gap-4">
-          {/* Mic button */}
-          <button
-            type="button"
-            disabled={isBusy}
-            onMouseDown={handleStartTalking}
-            onMouseUp={handleStopTalking}
-            onMouseLeave={() => isRecording && handleStopTalking()}
-            onTouchStart={handleStartTalking}
-            onTouchEnd={handleStopTalking}
-            className={`flex items-center justify-center rounded-full border px-6 py-3 text-sm font-semibold shadow-sm transition ${
-              isRecording
-                ? "bg-red-600 text-white"
-                : "bg-white hover:bg-slate-100"
-            } ${isBusy ? "opacity-60 cursor-not-allowed" : ""}`}
+        {/* Appointment book */}
+        {calendar && (
+          <section className="space-y-2 rounded-lg border bg-white p-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-slate-700">
+                Appointment Book
+                {calendarBooking && (
+                  <span className="ml-2 font-normal text-emerald-700">
+                    Booked: {describeSlot(calendarBooking)}
+                  </span>
+                )}
+              </h2>
+              <button
+                type="button"
+                onClick={() => setShowCalendar((shown) => !shown)}
+                className="text-xs underline text-slate-500"
+              >
+                {showCalendar ? "Hide" : "Show"} calendar
+              </button>
+            </div>
+            {showCalendar && (
+              <AppointmentCalendar
+                book={calendar}
+                schedule={schedule}
+                onBook={handleBookSlot}
+                disabled={!bookingOpen}
+              />
+            )}
+          </section>
+        )}
+
+        {/* Correcting the VA's last line */}
+        {editingText !== null && (
+          <form
+            onSubmit={handleRegenerate}
+            className="space-y-2 rounded-lg border bg-white p-3"
           >
-            <span className="text-lg mr-2">🎙</span>
-            {isBusy
-              ? "Patient replying..."
-              : isRecording
-              ? "Listening... Release to stop"
-              : "Hold to Talk"}
-          </button>
+            <label className="block text-xs font-semibold text-slate-700">
+              Fix what you said, and the patient will answer the corrected
+              line instead
+            </label>
+            <textarea
+              className="w-full rounded border px-3 py-2 text-sm"
+              rows={2}
+              value={editingText}
+              onChange={(e) => setEditingText(e.target.value)}
+            />
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={isBusy || !editingText.trim()}
+                className="rounded border px-3 py-1 text-xs font-semibold bg-white hover:bg-slate-100 disabled:opacity-60"
+              >
+                Regenerate reply
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditingText(null)}
+                className="rounded border px-3 py-1 text-xs bg-white hover:bg-slate-100"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Input mode toggle */}
+        <section className="flex items-center gap-2 text-xs">
+          <span className="font-semibold text-slate-700">Practice by:</span>
+          {(["voice", "text"] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              disabled={turns.length > 0}
+              onClick={() => setInputMode(m)}
+              className={`rounded border px-3 py-1 disabled:cursor-not-allowed ${
+                inputMode === m
+                  ? "bg-black text-white"
+                  : "bg-white hover:bg-slate-100 disabled:opacity-60"
+              }`}
+            >
+              {m === "voice" ? "Talking" : "Typing"}
+            </button>
+          ))}
+          {inputMode === "voice" && (
+            <label className="ml-4 inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={handsFree}
+                disabled={isListening || isRecording}
+                onChange={(e) => setHandsFree(e.target.checked)}
+              />
+              <span>Hands-free (open line)</span>
+            </label>
+          )}
+          {inputMode === "text" && (
+            <label className="ml-4 inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={speakReplies}
+                onChange={(e) => setSpeakReplies(e.target.checked)}
+              />
+              <span>Play patient voice</span>
+            </label>
+          )}
+        </section>
 
-          {/* End Call button */}
+        {/* Hands-free tuning */}
+        {inputMode === "voice" && handsFree && (
+          <section className="flex flex-wrap items-center gap-6 text-xs text-slate-700">
+            <label className="flex items-center gap-2">
+              <span className="font-semibold">Silence threshold</span>
+              <input
+                type="range"
+                min={0.005}
+                max={0.1}
+                step={0.005}
+                value={vadSettings.threshold}
+                onChange={(e) =>
+                  setVadSettings((prev) => ({
+                    ...prev,
+                    threshold: Number(e.target.value),
+                  }))
+                }
+              />
+              <span className="text-slate-500">
+                raise it if background noise starts turns
+              </span>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="font-semibold">Pause before sending</span>
+              <input
+                type="range"
+                min={400}
+                max={3000}
+                step={100}
+                value={vadSettings.silenceMs}
+                onChange={(e) =>
+                  setVadSettings((prev) => ({
+                    ...prev,
+                    silenceMs: Number(e.target.value),
+                  }))
+                }
+              />
+              <span>{(vadSettings.silenceMs / 1000).toFixed(1)}s</span>
+            </label>
+          </section>
+        )}
+
+        {/* Phone actions: hold, transfer, callback */}
+        <section className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="font-semibold text-slate-700">Phone:</span>
+          {onHold ? (
+            <button
+              type="button"
+              onClick={handleResume}
+              className="rounded border px-3 py-1 bg-amber-100 font-semibold hover:bg-amber-200"
+            >
+              On hold {formatDuration(holdElapsedMs)} &ndash; Take off hold
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleHold}
+              disabled={isBusy || outcome !== null || callAction !== null}
+              className="rounded border px-3 py-1 bg-white hover:bg-slate-100 disabled:opacity-60"
+            >
+              Hold
+            </button>
+          )}
           <button
             type="button"
-            onClick={handleEndCall}
-            className="rounded bg-black px-5 py-2 text-sm font-semibold text-white hover:bg-slate-900"
+            onClick={() => chooseCallAction({ type: "transfer" })}
+            disabled={outcome !== null || onHold || callAction !== null}
+            className="rounded border px-3 py-1 bg-white hover:bg-slate-100 disabled:opacity-60"
           >
-            End Call &amp; Score
+            Transfer to {clinic?.doctorName ?? "the doctor"}
           </button>
+          {callbackWhen === null ? (
+            <button
+              type="button"
+              onClick={() => setCallbackWhen("")}
+              disabled={outcome !== null || onHold || callAction !== null}
+              className="rounded border px-3 py-1 bg-white hover:bg-slate-100 disabled:opacity-60"
+            >
+              Offer callback
+            </button>
+          ) : (
+            <form onSubmit={handleOfferCallback} className="flex gap-2">
+              <input
+                type="text"
+                autoFocus
+                maxLength={MAX_CALLBACK_LENGTH}
+                className="rounded border px-2 py-1 bg-white"
+                placeholder="When? e.g. tomorrow at 10am"
+                value={callbackWhen}
+                onChange={(e) => setCallbackWhen(e.target.value)}
+              />
+              <button
+                type="submit"
+                disabled={!callbackWhen.trim()}
+                className="rounded border px-3 py-1 bg-white hover:bg-slate-100 disabled:opacity-60"
+              >
+                Add
+              </button>
+              <button
+                type="button"
+                onClick={() => setCallbackWhen(null)}
+                className="underline text-slate-500"
+              >
+                Cancel
+              </button>
+            </form>
+          )}
+          {callAction && (
+            <span className="text-amber-700">
+              {describeCallAction(callAction)} &ndash; goes with your next
+              line
+              {callAction.type === "transfer" &&
+                ", and the call ends after the patient's reply"}
+              .{" "}
+              <button
+                type="button"
+                onClick={() => chooseCallAction(null)}
+                className="underline"
+              >
+                Cancel
+              </button>
+            </span>
+          )}
+        </section>
+
+        {/* Controls */}
+        <section className="flex flex-col md:flex-row items-center justify-between gap-4">
+          {inputMode === "voice" && handsFree ? (
+            /* Open line: turns start and end on their own */
+            <button
+              type="button"
+              disabled={outcome !== null}
+              onClick={() => (isListening ? stopOpenLine() : startOpenLine())}
+              className={`flex items-center justify-center rounded-full border px-6 py-3 text-sm font-semibold shadow-sm transition ${
+                isRecording
+                  ? "bg-red-600 text-white"
+                  : isListening
+                  ? "bg-emerald-600 text-white"
+                  : "bg-white hover:bg-slate-100"
+              } ${outcome ? "opacity-60 cursor-not-allowed" : ""}`}
+            >
+              <span className="text-lg mr-2">🎙</span>
+              {outcome
+                ? "Call ended"
+                : !isListening
+                ? "Open the line"
+                : isRecording
+                ? "Hearing you..."
+                : isBusy
+                ? "Patient replying..."
+                : "Listening... Click to pause"}
+            </button>
+          ) : inputMode === "voice" ? (
+            /* Mic button */
+            <button
+              type="button"
+              disabled={isBusy || outcome !== null || onHold}
+              onMouseDown={handleStartTalking}
+              onMouseUp={handleStopTalking}
+              onMouseLeave={() => isRecording && handleStopTalking()}
+              onTouchStart={handleStartTalking}
+              onTouchEnd={handleStopTalking}
+              className={`flex items-center justify-center rounded-full border px-6 py-3 text-sm font-semibold shadow-sm transition ${
+                isRecording
+                  ? "bg-red-600 text-white"
+                  : "bg-white hover:bg-slate-100"
+              } ${isBusy || outcome ? "opacity-60 cursor-not-allowed" : ""}`}
+            >
+              <span className="text-lg mr-2">🎙</span>
+              {isBusy
+                ? "Patient replying..."
+                : outcome
+                ? "Call ended"
+                : isRecording
+                ? "Listening... Release to stop"
+                : "Hold to Talk"}
+            </button>
+          ) : (
+            /* Typed turn */
+            <form
+              onSubmit={handleSendTyped}
+              className="flex w-full md:flex-1 gap-2"
+            >
+              <input
+                type="text"
+                className="flex-1 rounded border px-3 py-2 text-sm bg-white"
+                placeholder={
+                  outcome ? "Call ended" : "Type what you would say…"
+                }
+                value={typedText}
+                onChange={(e) => setTypedText(e.target.value)}
+                disabled={isBusy || outcome !== null || onHold}
+              />
+              <button
+                type="submit"
+                disabled={
+                  isBusy || outcome !== null || onHold || !typedText.trim()
+                }
+                className="rounded border px-4 py-2 text-sm font-semibold bg-white hover:bg-slate-100 disabled:opacity-60"
+              >
+                {isBusy ? "Patient replying..." : "Send"}
+              </button>
+            </form>
+          )}
+
+          {/* Undo + End Call buttons */}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleUndo}
+              disabled={
+                isBusy || isScoring || outcome !== null || lastStaffIndex === -1
+              }
+              className="rounded border px-4 py-2 text-sm bg-white hover:bg-slate-100 disabled:opacity-60"
+            >
+              Undo last exchange
+            </button>
+            <button
+              type="button"
+              onClick={handleEndCall}
+              disabled={isBusy || isScoring}
+              className="rounded bg-black px-5 py-2 text-sm font-semibold text-white hover:bg-slate-900 disabled:opacity-60"
+            >
+              {isScoring ? "Scoring call..." : "End Call & Score"}
+            </button>
+          </div>
         </section>
       </div>
     </main>
@@ -0,0 +1,28 @@
+// src/types/account.ts
+import type { Persona } from "./persona";
+
+// Trainers set up the clinic and assign scenarios; VAs take the calls.
+export type AccountRole = "trainer" | "va";
+
+// An account as the pages see it. Password hashes never leave the server.
+export type Account = {
+  id: string;
+  username: string; // what they sign in with, lower case
+  displayName: string;
+  role: AccountRole;
+  createdAt: string; // ISO timestamp
+};
+
+// A scenario a trainer set for one VA.
+export type Assignment = {
+  id: string;
+  vaId: string; // the VA's account id
+  persona: Persona; // snapshot, so custom personas work in the VA's browser
+  dueDate: string; // YYYY-MM-DD
+  note?: string; // what the trainer wants them to work on
+  coaching?: boolean; // false keeps the coaching panel off for the call
+  assignedBy: string; // the trainer's account id
+  createdAt: string; // ISO timestamp
+  completedAt?: string; // set when the VA finishes a call for it
+  callId?: string; // the call history entry that completed it
+};
@@ -0,0 +1,20 @@
+// src/types/annotation.ts
+
+// Character offsets into a turn's text, `end` exclusive.
+export type TextSpan = {
+  start: number;
+  end: number;
+};
+
+// A trainer's note on one line of a saved call. With a `span` it highlights
+// part of the line under `label` (e.g. "great empathy"); a `comment` is
+// feedback the VA should act on and stays open until they resolve it.
+export type Annotation = {
+  id: string;
+  turnIndex: number; // index into the call's Turn[]
+  span?: TextSpan;
+  label?: string;
+  comment?: string;
+  createdAt: string; // ISO timestamp
+  resolvedAt?: string; // set when the VA marks the comment done
+};
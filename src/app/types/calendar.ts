@@ -0,0 +1,32 @@
+// src/types/calendar.ts
+
+// One appointment time. Dates are local calendar days ("2026-10-21"),
+// times are minutes after midnight like the office-hours schedule.
+export type CalendarSlot = {
+  date: string;
+  start: number;
+};
+
+export type Booking = CalendarSlot & {
+  patientName: string;
+  fromCall?: boolean; // booked by the VA on this call
+};
+
+// The clinic's simulated appointment book for the next few open days,
+// seeded with other patients' bookings when the call starts.
+export type AppointmentBook = {
+  slotMinutes: number;
+  dates: string[]; // open days shown, in order
+  bookings: Booking[];
+};
+
+// The slot the patient agreed to, checked against the schedule and the
+// appointment book.
+export type BookingCheck = {
+  agreed: string; // the patient's words, e.g. "Tuesday at 3pm"
+  slot: CalendarSlot | null; // null when the words don't name a day and time
+  withinHours: boolean;
+  available: boolean; // not already another patient's
+  matchesCalendar: boolean; // the VA booked this slot in the calendar
+  problems: string[];
+};
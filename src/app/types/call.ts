@@ -0,0 +1,34 @@
+// src/types/call.ts
+import type { PatientMood } from "./scenario";
+
+// How the VA delivers their side of the call.
+export type InputMode = "voice" | "text";
+
+// "event" turns record something the VA did on the line rather than said.
+export type Role = "staff" | "patient" | "event";
+
+// Phone-system actions the VA can take mid-call. Each is recorded as an
+// event turn just before the VA line that goes with it.
+export type CallAction =
+  | { type: "hold"; durationMs: number }
+  | { type: "transfer" } // to the doctor; the call ends after the reply
+  | { type: "callback"; when: string }; // as the VA promised it
+
+// Measured on the client while the line was spoken or played. Missing for
+// typed lines and for replies that were never played aloud.
+export type TurnTiming = {
+  speechMs: number; // how long the line took to say
+  responseDelayMs?: number; // VA lines only: patient finished → VA started
+};
+
+export type Turn = {
+  role: Role;
+  text: string;
+  // Patient turns only: the VA started talking before the audio finished.
+  interrupted?: boolean;
+  timing?: TurnTiming;
+  // Patient turns only: how they felt after the VA line they answered.
+  mood?: PatientMood;
+  // Event turns only: what the VA did. `text` describes it for people.
+  action?: CallAction;
+};
@@ -0,0 +1,7 @@
+// src/types/checklist.ts
+// How a call did against one item of the clinic's call script.
+export type ChecklistResult = {
+  itemId: string;
+  label: string;
+  turnIndex: number | null; // first staff turn that covered it, null if missed
+};
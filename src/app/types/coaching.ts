@@ -0,0 +1,7 @@
+// src/types/coaching.ts
+// Live advice for the VA after each patient line.
+export type CoachingTip = {
+  intent: string; // e.g. "Price objection" or "Asking about parking"
+  objection: boolean; // true when the patient is pushing back
+  suggestions: string[]; // 2–3 things the VA could say next
+};
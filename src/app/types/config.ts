@@ -1,15 +1,79 @@
 // src/types/config.ts
-export type ClinicServices = {
-  decompression: boolean;
-  classIVLaser: boolean;
-  shockwave: boolean;
+// Bump CLINIC_CONFIG_VERSION (lib/clinicConfig.ts) and add a migration
+// whenever this shape changes; saved configs are upgraded on load.
+export type ClinicService = {
+  id: string;
+  name: string;
+  description: string;
+  price: number | null; // null when the office doesn't quote it on the phone
+};
+
+export type ClinicInsurance = {
+  accepted: string[]; // plan or carrier names
+  notes: string; // e.g. "Out of network for everything else, superbills on request"
+};
+
+export type ClinicPolicy = {
+  id: string;
+  title: string; // e.g. "Cancellations"
+  details: string;
+};
+
+export type ClinicFaq = {
+  id: string;
+  question: string;
+  answer: string;
+};
+
+// One thing the clinic wants said on every call. The example may list
+// alternative wordings separated by "|" and use {clinic}, {doctor}, {price},
+// {day}, {time} and {name} (the VA's own name) placeholders.
+export type ClinicScriptItem = {
+  id: string;
+  label: string; // e.g. "Ask for the caller's phone number"
+  example: string; // e.g. "What's the best number to reach you?"
 };
 
 export type ClinicConfig = {
+  version: 3;
   clinicName: string;
   doctorName: string;
   firstVisitCost: number;
   address: string;
   officeHours: string;
-  services: ClinicServices;
+  services: ClinicService[];
+  insurance: ClinicInsurance;
+  policies: ClinicPolicy[];
+  faqs: ClinicFaq[];
+  script: ClinicScriptItem[]; // in the order it should come up on the call
+};
+
+// The original shape, saved before `version` existed: three fixed services
+// and no insurance, policies or FAQs.
+export type ClinicConfigV1 = {
+  clinicName: string;
+  doctorName: string;
+  firstVisitCost: number;
+  address: string;
+  officeHours: string;
+  services: {
+    decompression: boolean;
+    classIVLaser: boolean;
+    shockwave: boolean;
+  };
+};
+
+// A named clinic setup. Trainers keep one per clinic they train VAs for.
+export type ClinicProfile = {
+  id: string;
+  name: string;
+  updatedAt: string;
+  config: ClinicConfig;
+};
+
+// What an exported profile file contains.
+export type ClinicProfileFile = {
+  kind: "clinic-profile";
+  name: string;
+  config: ClinicConfig;
 };
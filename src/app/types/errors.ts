@@ -0,0 +1,21 @@
+// src/types/errors.ts
+// Machine-readable codes on every API error body, so pages can explain
+// what went wrong instead of showing a generic server error.
+export type ApiErrorCode =
+  | "bad_input" // the request failed validation; see `details`
+  | "unauthorized" // not signed in, or the sign-in has expired
+  | "forbidden" // signed in, but the role can't do this
+  | "not_found" // an account or assignment that doesn't exist
+  | "session_not_found"
+  | "call_ended"
+  | "transcription_failed" // speech-to-text provider error
+  | "empty_speech" // the recording had no words in it
+  | "model_failed" // the chat model errored or returned nothing usable
+  | "tts_failed" // text-to-speech provider error
+  | "server_error";
+
+export type ApiErrorBody = {
+  error: string;
+  code: ApiErrorCode;
+  details?: string[];
+};
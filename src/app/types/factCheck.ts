@@ -0,0 +1,15 @@
+// src/types/factCheck.ts
+export type FactField =
+  | "firstVisitCost"
+  | "servicePrice"
+  | "officeHours"
+  | "address"
+  | "services";
+
+export type Discrepancy = {
+  turnIndex: number; // index into the call's Turn[]
+  field: FactField;
+  said: string; // what the VA claimed, as quoted from the turn
+  expected: string; // what the clinic config says
+  message: string;
+};
@@ -0,0 +1,30 @@
+// src/types/persona.ts
+import type { ScenarioGoalId } from "./scenario";
+
+// The clinic's records about the patient, for outbound calls. The VA sees
+// these before dialling; the patient knows them as their own history.
+export type CallContext = {
+  leadSource?: string; // e.g. "Facebook ad form, two days ago"
+  missedAppointment?: string; // e.g. "New-patient exam last Tuesday at 3pm"
+  lastVisit?: string; // e.g. "Last March, after finishing a six-week plan"
+};
+
+export type Persona = {
+  id: string;
+  title: string; // shown on the persona card, e.g. "Skeptical"
+  description: string; // one-line summary for trainers
+  builtIn: boolean;
+  goalId: ScenarioGoalId; // what the VA is trying to achieve on this call
+
+  // Who the simulated patient is
+  name: string;
+  age: number;
+  chiefComplaint: string;
+  painDuration: string;
+  insurance: string;
+  personality: string;
+  hiddenObjections: string[];
+  convinceBy: string; // what it takes for them to book
+  availability?: string; // when they can come in, e.g. "Weekday mornings"
+  callContext?: CallContext;
+};
@@ -0,0 +1,31 @@
+// src/types/recording.ts
+import type { Role } from "./call";
+
+// One stretch of audio as it was heard on the call: a VA recording, or one
+// sentence of a patient reply (cut short if the VA talked over it).
+export type RecordingClip = {
+  turnIndex: number; // index into the call's Turn[]
+  role: Role;
+  startMs: number; // from the start of the recording
+  durationMs: number;
+  audio: Blob;
+};
+
+// Every clip as captured, kept in the browser that made the call.
+export type CallRecording = {
+  callId: string;
+  clips: RecordingClip[]; // in start order
+  durationMs: number;
+};
+
+// Who spoke when, without the audio. Saved with the call on the server.
+export type RecordingTimeline = {
+  clips: Omit<RecordingClip, "audio">[]; // in start order
+  durationMs: number;
+};
+
+// The call mixed down to one WAV track, as uploaded and replayed.
+export type MixedRecording = RecordingTimeline & {
+  callId: string;
+  audio: Blob;
+};
@@ -0,0 +1,48 @@
+// src/types/scenario.ts
+import type { CallContext } from "./persona";
+
+export type ScenarioGoalId =
+  | "book-new-patient-exam"
+  | "recover-no-show"
+  | "follow-up-lead"
+  | "reschedule-no-show"
+  | "reactivate-patient";
+
+// Inbound: the patient calls the clinic. Outbound: the VA places the call
+// and the patient picks up without knowing who it is.
+export type CallDirection = "inbound" | "outbound";
+
+export type ScenarioGoal = {
+  id: ScenarioGoalId;
+  label: string;
+  description: string; // what the VA is trying to achieve
+  direction: CallDirection;
+  patientSituation: string; // what the patient knows going into the call
+  contextFields: (keyof CallContext)[]; // what the VA knows before dialling
+  successCriteria: string[]; // checked one by one when the call is scored
+};
+
+// Where the call stands after a patient reply. "booked" and "hung_up"
+// end the call.
+export type CallStatus = "engaged" | "booked" | "hung_up";
+
+// How the patient feels about the call, each from 0 to 10. The patient
+// model updates it after every VA line.
+export type PatientMood = {
+  trust: number;
+  frustration: number;
+  interest: number; // in booking
+};
+
+export type PatientReplyMeta = {
+  status: CallStatus;
+  bookedSlot: string | null; // as the patient agreed to it, e.g. "Tuesday at 3pm"
+  mood: PatientMood | null; // null when the model left it out
+};
+
+// "transferred": the VA put the patient through to the doctor.
+export type CallOutcome = {
+  status: "booked" | "hung_up" | "ended_by_va" | "transferred";
+  goalMet: boolean;
+  bookedSlot: string | null;
+};
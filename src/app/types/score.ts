@@ -0,0 +1,35 @@
+// src/types/score.ts
+export type ScoreCategoryId =
+  | "greeting"
+  | "rapport"
+  | "objectionHandling"
+  | "bookingAttempt"
+  | "accuracy";
+
+export type CategoryScore = {
+  score: number; // 0–10
+  evidence: string[]; // quoted lines from the transcript
+  tips: string[];
+};
+
+// One of the call type's success criteria, as judged by the scorer.
+export type CriterionResult = {
+  criterion: string;
+  met: boolean;
+};
+
+// Whether a hold, transfer or callback was the right call, in the order
+// they happened.
+export type ActionReview = {
+  event: string; // the event's transcript text
+  appropriate: boolean;
+  comment: string;
+};
+
+export type Scorecard = {
+  overall: number; // 0–100
+  summary: string;
+  categories: Record<ScoreCategoryId, CategoryScore>;
+  criteria?: CriterionResult[]; // missing on calls scored before criteria
+  actions?: ActionReview[]; // missing on calls scored before call actions
+};
@@ -0,0 +1,53 @@
+// src/types/session.ts
+import type { Annotation } from "./annotation";
+import type { AppointmentBook, BookingCheck } from "./calendar";
+import type { ChecklistResult } from "./checklist";
+import type { ClinicConfig } from "./config";
+import type { InputMode, Turn } from "./call";
+import type { Discrepancy } from "./factCheck";
+import type { Persona } from "./persona";
+import type { RecordingTimeline } from "./recording";
+import type { CallOutcome } from "./scenario";
+import type { Scorecard } from "./score";
+import type { SpeechMetrics } from "./speechMetrics";
+
+// A call in progress, owned by the server. The client only ever holds its id.
+export type ConversationSession = {
+  id: string;
+  persona: Persona;
+  clinic: ClinicConfig;
+  inputMode: InputMode;
+  startedAt: string; // ISO timestamp
+  callDate?: string; // the VA's YYYY-MM-DD; the calendar is seeded from it
+  endedAt: string | null; // set once the session is ended
+  turns: Turn[];
+  outcome: CallOutcome | null; // set when the patient books or hangs up
+  calendar?: AppointmentBook; // missing on sessions started before calendars
+  trainee?: { id: string; name: string }; // the account that started the call
+  assignmentId?: string; // the trainee's assignment the call is for
+  coachingLocked?: boolean; // the trainer turned coaching off for this call
+  coached?: boolean; // the coach route gave a tip during the call
+};
+
+// A finished call as kept in the client's call history.
+export type CallSession = {
+  id: string;
+  persona: Persona; // snapshot at the time of the call
+  clinic: ClinicConfig; // snapshot at the time of the call
+  inputMode: InputMode;
+  coached?: boolean; // the live coaching panel showed tips during the call
+  startedAt: string; // ISO timestamp
+  endedAt: string; // ISO timestamp
+  turns: Turn[];
+  outcome: CallOutcome;
+  scorecard: Scorecard | null;
+  discrepancies: Discrepancy[];
+  checklist?: ChecklistResult[]; // missing on calls saved before call scripts
+  speechMetrics?: SpeechMetrics; // missing on calls saved before metrics
+  calendar?: AppointmentBook; // as it stood when the call ended
+  bookingCheck?: BookingCheck; // calls that ended in a booking
+  annotations?: Annotation[]; // trainer feedback added after the call
+  recording?: RecordingTimeline; // set once the call's audio is uploaded
+  trainee?: { id: string; name: string }; // the VA account on the call
+  assignmentId?: string; // the assignment the call was made for
+};
@@ -0,0 +1,25 @@
+// src/types/speechMetrics.ts
+// How the VA sounded, from the timing of each line and the words in it.
+// Time-based numbers are null when nothing was timed (typed practice).
+
+export type StaffTurnMetrics = {
+  turnIndex: number; // index into the call's Turn[]
+  words: number;
+  speechMs: number | null;
+  wordsPerMinute: number | null;
+  fillers: number;
+  responseDelayMs: number | null;
+};
+
+export type SpeechMetrics = {
+  turns: StaffTurnMetrics[];
+  wordsPerMinute: number | null; // across all timed VA speech
+  fillerCount: number;
+  fillers: Record<string, number>; // e.g. { um: 3, "you know": 1 }
+  // VA share of the conversation, 0–1. Uses talk time when both sides were
+  // timed, otherwise word counts.
+  talkRatio: number | null;
+  talkRatioBasis: "time" | "words";
+  longestMonologue: StaffTurnMetrics | null;
+  averageResponseDelayMs: number | null;
+};
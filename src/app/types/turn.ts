@@ -0,0 +1,29 @@
+// src/types/turn.ts
+import type { Turn } from "./call";
+import type { ApiErrorBody } from "./errors";
+import type { PatientReplyMeta } from "./scenario";
+
+// What the server returns for one VA line and the patient's answer.
+export type PatientTurnResult = {
+  staffText: string;
+  patientText: string;
+  audioBase64: string; // empty when speech was not requested or was streamed
+  audioMimeType: string;
+  meta: PatientReplyMeta;
+  turns: Turn[];
+};
+
+// Server-sent events from POST /api/voice-turn/stream, in the order they
+// arrive: staff, then patient-delta and audio interleaved, then done.
+export type TurnStreamEvent =
+  | { type: "staff"; text: string }
+  | { type: "patient-delta"; text: string }
+  | {
+      type: "audio";
+      index: number; // sentence number, starting at 0
+      text: string;
+      audioBase64: string;
+      mimeType: string;
+    }
+  | { type: "done"; result: PatientTurnResult }
+  | ({ type: "error" } & ApiErrorBody);